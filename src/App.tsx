@@ -55,6 +55,18 @@ export default function App() {
     }
   };
 
+  const handleAccountDeleted = async () => {
+    try {
+      // The auth user no longer exists, so only the local session needs clearing
+      await supabase.auth.signOut({ scope: 'local' });
+    } catch (error) {
+      console.error('Error clearing session:', error);
+    } finally {
+      setAccessToken(null);
+      setAppState("login");
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="size-full flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-green-50">
@@ -84,6 +96,7 @@ export default function App() {
           <Dashboard 
             accessToken={accessToken}
             onLogout={handleLogout} 
+            onAccountDeleted={handleAccountDeleted}
           />
         )}
       </div>
@@ -0,0 +1,182 @@
+import { Card } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Activity, Plus, Edit2, Trash2, Upload, RotateCcw } from "lucide-react";
+import { useState, useEffect } from "react";
+import { auditApi } from "../utils/api";
+import type { AuditAction, AuditEntry, AuditSubject } from "../supabase/functions/server/models";
+
+const PAGE_SIZE = 30;
+
+interface ActivityLogProps {
+  accessToken: string;
+  activeFileId: string | null;
+}
+
+const subjectNames: Record<AuditSubject, string> = {
+  txn: "Transaction",
+  emi: "EMI",
+  goal: "Savings goal",
+  file: "File",
+};
+
+const actionStyles: Record<AuditAction, { icon: typeof Plus; label: string; className: string }> = {
+  create: { icon: Plus, label: "Created", className: "bg-green-100 text-green-700" },
+  update: { icon: Edit2, label: "Updated", className: "bg-blue-100 text-blue-700" },
+  delete: { icon: Trash2, label: "Deleted", className: "bg-red-100 text-red-700" },
+  restore: { icon: RotateCcw, label: "Restored", className: "bg-amber-100 text-amber-700" },
+  import: { icon: Upload, label: "Imported", className: "bg-purple-100 text-purple-700" },
+};
+
+const countNames: Record<string, string> = {
+  transactions: "transactions",
+  emis: "EMIs",
+  savingsGoals: "savings goals",
+};
+
+// Amounts and other numbers read better with grouping; null means the field was empty
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "number") return value.toLocaleString();
+  return String(value);
+}
+
+export function ActivityLog({ accessToken, activeFileId }: ActivityLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [subject, setSubject] = useState<string>("all");
+  const [scope, setScope] = useState<"file" | "all">("file");
+
+  useEffect(() => {
+    fetchPage();
+  }, [activeFileId, subject, scope]);
+
+  const fetchPage = async (cursor?: string) => {
+    try {
+      setIsLoading(true);
+      const { entries: page, nextCursor } = await auditApi.getAll(accessToken, {
+        subject: subject !== "all" ? subject as AuditSubject : undefined,
+        fileId: scope === "file" && activeFileId ? activeFileId : undefined,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      setEntries(prev => cursor ? [...prev, ...(page || [])] : (page || []));
+      setNextCursor(nextCursor || null);
+    } catch (error: any) {
+      console.error('Failed to fetch activity:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex gap-4 flex-wrap">
+        <Select value={scope} onValueChange={(value) => setScope(value as "file" | "all")}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Scope" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="file">This file</SelectItem>
+            <SelectItem value="all">All files</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select value={subject} onValueChange={setSubject}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Record type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All records</SelectItem>
+            <SelectItem value="txn">Transactions</SelectItem>
+            <SelectItem value="emi">EMIs</SelectItem>
+            <SelectItem value="goal">Savings goals</SelectItem>
+            <SelectItem value="file">Files</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="p-6">
+        <h3 className="text-lg text-gray-900 mb-4">Activity</h3>
+
+        {entries.length === 0 && !isLoading ? (
+          <div className="text-center py-8">
+            <Activity className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No changes recorded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => {
+              const style = actionStyles[entry.action];
+              const Icon = style.icon;
+
+              return (
+                <div key={entry.id} className="flex gap-3 p-4 border border-gray-200 rounded-lg">
+                  <div className={`p-2 rounded-full h-fit ${style.className}`}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{subjectNames[entry.subject]}</Badge>
+                        <span className="text-sm text-gray-900">
+                          {style.label} <span className="font-medium">{entry.label}</span>
+                        </span>
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {new Date(entry.at).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+
+                    {entry.changes && entry.changes.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {entry.changes.map((change) => (
+                          <li key={change.field} className="text-xs text-gray-600">
+                            <span className="text-gray-900">{change.field}</span>:{' '}
+                            <span className="line-through text-red-600">{formatValue(change.before)}</span>
+                            {' → '}
+                            <span className="text-green-700">{formatValue(change.after)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {entry.counts && (
+                      <p className="mt-2 text-xs text-gray-600">
+                        {Object.keys(entry.counts)
+                          .filter((name) => entry.counts![name] > 0)
+                          .map((name) => `${entry.counts![name]} ${countNames[name] || name}`)
+                          .join(', ')}
+                      </p>
+                    )}
+
+                    {entry.actor && (
+                      <p className="mt-1 text-xs text-gray-400">by {entry.actor}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {isLoading && (
+              <div className="text-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            )}
+
+            {nextCursor && !isLoading && (
+              <div className="text-center pt-2">
+                <Button size="sm" variant="outline" onClick={() => fetchPage(nextCursor)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
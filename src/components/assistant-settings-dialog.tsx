@@ -0,0 +1,170 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Settings2 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { settingsApi, describeApiError } from "../utils/api";
+import {
+  TEMPERATURE_RANGE,
+  MAX_TOKENS_RANGE,
+  type ChatDeployment,
+  type LlmProviderId,
+} from "../supabase/functions/server/models";
+import { toast } from "sonner@2.0.3";
+
+interface AssistantSettingsDialogProps {
+  accessToken: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const providerNames: Record<LlmProviderId, string> = {
+  groq: "Groq",
+  openai: "OpenAI-compatible API",
+  local: "Self-hosted model",
+  mock: "Mock (testing)",
+};
+
+// Select value for "use the server default"
+const DEFAULT_PROVIDER = "default";
+
+export function AssistantSettingsDialog({ accessToken, open, onOpenChange }: AssistantSettingsDialogProps) {
+  const [deployment, setDeployment] = useState<ChatDeployment | null>(null);
+  const [provider, setProvider] = useState<string>(DEFAULT_PROVIDER);
+  const [model, setModel] = useState("");
+  const [temperature, setTemperature] = useState("");
+  const [maxTokens, setMaxTokens] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    settingsApi.get(accessToken)
+      .then(({ settings, chat }) => {
+        setDeployment(chat);
+        setProvider(settings.chat.provider ?? DEFAULT_PROVIDER);
+        setModel(settings.chat.model ?? "");
+        setTemperature(settings.chat.temperature?.toString() ?? "");
+        setMaxTokens(settings.chat.maxTokens?.toString() ?? "");
+      })
+      .catch((error) => {
+        console.error('Failed to load settings:', error);
+        toast.error(describeApiError(error, 'Failed to load settings'));
+      });
+  }, [open, accessToken]);
+
+  const effectiveProvider = provider === DEFAULT_PROVIDER ? deployment?.defaultProvider : provider as LlmProviderId;
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      // Empty fields go back to the server defaults
+      await settingsApi.updateChat(accessToken, {
+        provider: provider === DEFAULT_PROVIDER ? null : provider as LlmProviderId,
+        model: model.trim() || null,
+        temperature: temperature === "" ? null : parseFloat(temperature),
+        maxTokens: maxTokens === "" ? null : parseFloat(maxTokens),
+      });
+      toast.success("Assistant settings saved");
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save settings:', error);
+      toast.error(describeApiError(error, 'Failed to save settings'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings2 className="w-5 h-5 text-blue-600" />
+            Assistant Settings
+          </DialogTitle>
+          <DialogDescription>
+            Choose the model that answers your questions. Leave a field empty to use the server default.
+          </DialogDescription>
+        </DialogHeader>
+
+        {deployment && deployment.providers.length === 0 ? (
+          <p className="text-sm text-gray-600 py-4">No assistant model is configured on this server.</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="assistant-provider">Provider</Label>
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger id="assistant-provider">
+                  <SelectValue placeholder="Provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_PROVIDER}>
+                    Server default{deployment?.defaultProvider && ` (${providerNames[deployment.defaultProvider]})`}
+                  </SelectItem>
+                  {deployment?.providers.map((id) => (
+                    <SelectItem key={id} value={id}>{providerNames[id]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="assistant-model">Model</Label>
+              <Input
+                id="assistant-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={(effectiveProvider && deployment?.defaultModels[effectiveProvider]) || "Server default"}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="assistant-temperature">Temperature</Label>
+                <Input
+                  id="assistant-temperature"
+                  type="number"
+                  step="0.1"
+                  min={TEMPERATURE_RANGE.min}
+                  max={TEMPERATURE_RANGE.max}
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  placeholder={deployment?.temperature.toString()}
+                />
+              </div>
+              <div>
+                <Label htmlFor="assistant-max-tokens">Max reply tokens</Label>
+                <Input
+                  id="assistant-max-tokens"
+                  type="number"
+                  step="1"
+                  min={MAX_TOKENS_RANGE.min}
+                  max={MAX_TOKENS_RANGE.max}
+                  value={maxTokens}
+                  onChange={(e) => setMaxTokens(e.target.value)}
+                  placeholder={deployment?.maxTokens.toString()}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 pt-2">
+          <Button
+            onClick={handleSave}
+            disabled={!deployment || deployment.providers.length === 0 || isSaving}
+            className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
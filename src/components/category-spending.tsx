@@ -2,7 +2,8 @@ import { Card } from "./ui/card";
 import { PieChart as PieChartIcon } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
 import { useState, useEffect } from "react";
-import { transactionApi } from "../utils/api";
+import { summaryApi } from "../utils/api";
+import type { DashboardSummary } from "../supabase/functions/server/models";
 
 interface CategorySpendingProps {
   accessToken: string;
@@ -21,47 +22,40 @@ const categoryColors: Record<string, string> = {
 };
 
 export function CategorySpending({ accessToken, activeFileId }: CategorySpendingProps) {
-  const [transactions, setTransactions] = useState<any[]>([]);
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    fetchTransactions();
+    fetchSummary();
   }, [activeFileId]);
 
-  const fetchTransactions = async () => {
+  const fetchSummary = async () => {
     try {
       setIsLoading(true);
       
       // Only fetch if we have an active file
       if (!activeFileId) {
-        setTransactions([]);
+        setSummary(null);
         setIsLoading(false);
         return;
       }
       
-      const filters: any = { type: "Expense", fileId: activeFileId };
-      const { transactions } = await transactionApi.getAll(accessToken, filters);
-      setTransactions(transactions || []);
+      const { summary } = await summaryApi.get(accessToken, { fileId: activeFileId });
+      setSummary(summary);
     } catch (error: any) {
-      console.error('Failed to fetch transactions:', error);
+      console.error('Failed to fetch summary:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Group by category
-  const categoryMap = new Map<string, number>();
-  transactions.forEach(t => {
-    categoryMap.set(t.category, (categoryMap.get(t.category) || 0) + t.amount);
-  });
-
-  const categoryData = Array.from(categoryMap.entries()).map(([name, value]) => ({
-    name,
-    value,
-    color: categoryColors[name] || "#6b7280",
+  const categoryData = (summary?.byCategory || []).map((category) => ({
+    name: category.name,
+    value: category.amount,
+    color: categoryColors[category.name] || "#6b7280",
   }));
 
-  const totalSpending = categoryData.reduce((sum, cat) => sum + cat.value, 0);
+  const totalSpending = summary?.totals.expense || 0;
 
   // Show message if no file is active
   if (!activeFileId) {
@@ -187,7 +181,7 @@ export function CategorySpending({ accessToken, activeFileId }: CategorySpending
         <Card className="p-6 bg-orange-50 border-orange-200">
           <h4 className="text-sm text-orange-900 mb-2">💡 Spending Insight</h4>
           <p className="text-sm text-orange-700">
-            Your top 3 categories ({categoryData.slice(0, 3).map(c => c.name).join(', ')}) account for{' '}
+            Your top 3 categories ({categoryData.slice(0, 3).map((c) => c.name).join(', ')}) account for{' '}
             {(((categoryData[0].value + (categoryData[1]?.value || 0) + (categoryData[2]?.value || 0)) / totalSpending) * 100).toFixed(0)}% 
             of your total spending. Consider setting category-specific budgets to better control expenses.
           </p>
@@ -2,10 +2,13 @@ import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { ScrollArea } from "./ui/scroll-area";
-import { Bot, Send, Sparkles } from "lucide-react";
+import { Bot, Send, Sparkles, Square, MessageSquarePlus, Settings2, History } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
-import { transactionApi, savingsApi, emiApi } from "../utils/api";
-import { groqApiKey, groqModel, groqApiUrl } from "../utils/groq/config";
+import { chatApi, conversationApi, describeApiError } from "../utils/api";
+import { AssistantSettingsDialog } from "./assistant-settings-dialog";
+import { ConversationHistory } from "./conversation-history";
+import { toast } from "sonner@2.0.3";
+import type { ChatCitation, ChatMessage, ConversationSummary } from "../supabase/functions/server/models";
 
 const samplePrompts = [
   "How much did I spend on Food?",
@@ -15,30 +18,96 @@ const samplePrompts = [
   "How are my savings goals progressing?",
 ];
 
+// `citations` are the stored rows an assistant answer was based on
+interface ChatEntry extends ChatMessage {
+  citations?: ChatCitation[];
+}
+
+const citationKinds: Record<ChatCitation["kind"], string> = {
+  txn: "transaction",
+  emi: "EMI",
+  goal: "savings goal",
+};
+
+function describeCitations(citations: ChatCitation[]) {
+  const counts = new Map<ChatCitation["kind"], number>();
+  citations.forEach(({ kind }) => counts.set(kind, (counts.get(kind) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([kind, count]) => `${count} ${citationKinds[kind]}${count === 1 ? "" : "s"}`)
+    .join(", ");
+}
+
+// Shown at the top of every conversation; not part of what is saved
+const greeting: ChatEntry = {
+  role: "assistant",
+  content: "Hello! I'm your Smart Finance Assistant. I can help you analyze your spending, track savings, and provide personalized financial advice based on your uploaded data. How can I help you today?",
+};
+
 interface ChatbotPanelProps {
   accessToken: string;
   activeFileId: string | null;
 }
 
 export function ChatbotPanel({ accessToken, activeFileId }: ChatbotPanelProps) {
-  const [messages, setMessages] = useState<any[]>([]);
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  // The saved conversation on screen; null until the first question of a new one creates it
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [transactionData, setTransactionData] = useState<any[]>([]);
-  const [emiData, setEmiData] = useState<any[]>([]);
-  const [savingsGoals, setSavingsGoals] = useState<any[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Aborts the answer currently streaming in, if any
+  const abortRef = useRef<AbortController | null>(null);
+  // The file shown now, for requests that finish after the user switched files
+  const fileIdRef = useRef(activeFileId);
+  fileIdRef.current = activeFileId;
 
-  useEffect(() => {
-    if (activeFileId) {
-      fetchData();
-      setMessages([
-        {
-          role: "assistant",
-          content: "Hello! I'm your Smart Finance Assistant. I can help you analyze your spending, track savings, and provide personalized financial advice based on your uploaded data. How can I help you today?",
-        },
-      ]);
+  const startConversation = () => {
+    abortRef.current?.abort();
+    setMessages([greeting]);
+    setConversationId(null);
+  };
+
+  const loadConversations = async (fileId: string) => {
+    const { conversations } = await conversationApi.getAll(accessToken, fileId);
+    if (fileId === fileIdRef.current) {
+      setConversations(conversations);
+    }
+    return conversations;
+  };
+
+  const openConversation = async (id: string) => {
+    abortRef.current?.abort();
+    try {
+      const { conversation } = await conversationApi.get(accessToken, id);
+      setMessages([greeting, ...conversation.messages.map(({ role, content, citations }) => ({ role, content, citations }))]);
+      setConversationId(conversation.id);
+    } catch (error: any) {
+      console.error('Failed to load conversation:', error);
+      toast.error(describeApiError(error, 'Failed to load conversation'));
     }
+  };
+
+  useEffect(() => {
+    if (!activeFileId) return;
+
+    // Pick up where the user left off with this file
+    startConversation();
+    setConversations([]);
+    let current = true;
+    loadConversations(activeFileId)
+      .then((saved) => {
+        if (current && saved.length > 0) openConversation(saved[0].id);
+      })
+      .catch((error) => console.error('Failed to load conversations:', error));
+
+    // Don't let an answer about the previous file land in the new conversation
+    return () => {
+      current = false;
+      abortRef.current?.abort();
+    };
   }, [activeFileId]);
 
   useEffect(() => {
@@ -48,25 +117,6 @@ export function ChatbotPanel({ accessToken, activeFileId }: ChatbotPanelProps) {
     }
   }, [messages]);
 
-  const fetchData = async () => {
-    try {
-      if (!activeFileId) return;
-      
-      const { transactions } = await transactionApi.getAll(accessToken, { fileId: activeFileId });
-      setTransactionData(transactions || []);
-      
-      // Fetch EMI data
-      const { emis } = await emiApi.getAll(accessToken, { fileId: activeFileId });
-      setEmiData(emis || []);
-      
-      // Fetch Savings Goals
-      const { savings } = await savingsApi.getAll(accessToken, { fileId: activeFileId });
-      setSavingsGoals(savings || []);
-    } catch (error: any) {
-      console.error('Failed to fetch data:', error);
-    }
-  };
-
   // Show message if no file is active
   if (!activeFileId) {
     return (
@@ -80,169 +130,91 @@ export function ChatbotPanel({ accessToken, activeFileId }: ChatbotPanelProps) {
     );
   }
 
-  const analyzeQuery = async (query: string): Promise<string> => {
-    // Check for Groq API key
-    console.log("🔍 Groq API Key check:", groqApiKey ? `Present (${groqApiKey.substring(0, 10)}...)` : "Missing");
-    
-    if (!groqApiKey || groqApiKey === "YOUR_GROQ_API_KEY_HERE" || groqApiKey.trim() === "") {
-      console.error("❌ GROQ_API_KEY missing or not configured.");
-      console.log("🔑 Please add your Groq API key to: /utils/groq/config.ts");
-      console.log("📝 Steps:");
-      console.log("   1. Get your API key from https://console.groq.com");
-      console.log("   2. Open /utils/groq/config.ts");
-      console.log("   3. Replace 'YOUR_GROQ_API_KEY_HERE' with your actual key");
-      console.log("   4. Save the file");
-      return "I need a Groq API key to provide intelligent answers. Please configure it in /utils/groq/config.ts - check the console for instructions.";
-    }
-    
-    console.log("✅ Groq API Key validated successfully");
-
-    // Prepare financial context data
-    const income = transactionData.filter(t => t.type === 'Income');
-    const expenses = transactionData.filter(t => t.type === 'Expense');
-    const totalIncome = income.reduce((sum, t) => sum + t.amount, 0);
-    const totalExpenses = expenses.reduce((sum, t) => sum + t.amount, 0);
-    const savings = totalIncome - totalExpenses;
-
-    // Build category breakdown
-    const categoryMap = new Map<string, number>();
-    expenses.forEach(t => {
-      const cat = t.category || 'Others';
-      categoryMap.set(cat, (categoryMap.get(cat) || 0) + t.amount);
-    });
-    const topCategories = Array.from(categoryMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5);
-
-    // Build EMI summary
-    const activeEmis = emiData.filter(emi => {
-      const endDate = new Date(emi.endDate);
-      return endDate >= new Date();
-    });
-    const totalMonthlyEmi = activeEmis.reduce((sum, emi) => sum + emi.emiAmount, 0);
-
-    // Build savings goals summary
-    const savingsGoalsSummary = savingsGoals.map(goal => {
-      const progress = goal.targetAmount > 0 ? (goal.currentAmount / goal.targetAmount * 100).toFixed(1) : 0;
-      const remaining = goal.targetAmount - goal.currentAmount;
-      return {
-        name: goal.goalName,
-        progress: `${progress}%`,
-        current: goal.currentAmount,
-        target: goal.targetAmount,
-        remaining: remaining,
-      };
-    });
-
-    // Build financial context for Groq
-    const financialContext = {
-      summary: {
-        totalIncome: `₹${totalIncome.toLocaleString()}`,
-        totalExpenses: `₹${totalExpenses.toLocaleString()}`,
-        netSavings: `₹${savings.toLocaleString()}`,
-        savingsRate: totalIncome > 0 ? `${((savings / totalIncome) * 100).toFixed(1)}%` : '0%',
-        transactionCount: transactionData.length,
-      },
-      categories: topCategories.map(([cat, amt]) => ({
-        category: cat,
-        amount: `₹${amt.toLocaleString()}`,
-        percentage: totalExpenses > 0 ? `${((amt / totalExpenses) * 100).toFixed(1)}%` : '0%',
-      })),
-      emis: activeEmis.map(emi => ({
-        loanName: emi.loanName,
-        emiAmount: `₹${emi.emiAmount.toLocaleString()}`,
-        endDate: new Date(emi.endDate).toLocaleDateString(),
-      })),
-      totalMonthlyEmi: `₹${totalMonthlyEmi.toLocaleString()}`,
-      savingsGoals: savingsGoalsSummary,
-      recentTransactions: transactionData.slice(-10).map(t => ({
-        date: new Date(t.date).toLocaleDateString(),
-        description: t.description,
-        amount: `₹${t.amount.toLocaleString()}`,
-        category: t.category,
-        type: t.type,
-      })),
-    };
-
-    // Call Groq API
-    try {
-      const res = await fetch(groqApiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${groqApiKey}`,
-        },
-        body: JSON.stringify({
-          model: groqModel,
-          messages: [
-            {
-              role: "system",
-              content: `You are a personal finance assistant helping users understand their financial data. You have access to their complete financial information including income, expenses, EMIs, and savings goals.
-
-IMPORTANT RULES:
-- Only use the data provided in the context. Never make up numbers or transactions.
-- Always use Indian Rupee (₹) currency format.
-- Be conversational, friendly, and helpful.
-- Provide actionable advice when appropriate.
-- If the user asks about data not in the context, politely say you don't have that information.
-- Keep responses concise but informative.
-- Use the actual numbers from the context provided.
-
-Financial Context:
-${JSON.stringify(financialContext, null, 2)}`,
-            },
-            { role: "user", content: query },
-          ],
-          temperature: 0.7,
-          max_completion_tokens: 1024,
-          top_p: 1,
-          stream: false,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        console.error("Groq API Error:", errorData);
-        throw new Error(errorData.error?.message || "Failed to get response from Groq API");
-      }
-
-      const data = await res.json();
-      return data?.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response. Please try again.";
-    } catch (error: any) {
-      console.error("Error calling Groq API:", error);
-      return `Sorry, I encountered an error: ${error.message}. Please check your API key and try again.`;
-    }
+  // The assistant's reply is always the last message while it streams in
+  const updateReply = (update: (content: string) => string) => {
+    setMessages(prev => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], content: update(prev[prev.length - 1].content) },
+    ]);
   };
 
   const handleSend = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isLoading) return;
 
     const userInput = input;
     setInput("");
 
-    // Add user message
-    const userMessage = { role: "user", content: userInput };
-    setMessages([...messages, userMessage]);
+    // Add user message and an empty reply to stream into
+    const userMessage: ChatEntry = { role: "user", content: userInput };
+    setMessages(prev => [...prev, userMessage, { role: "assistant", content: "" }]);
     
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      // Call Groq API
-      const response = await analyzeQuery(userInput);
-      const assistantMessage = { role: "assistant", content: response };
-      setMessages(prev => [...prev, assistantMessage]);
+      let id = conversationId;
+      if (!id) {
+        ({ conversation: { id } } = await conversationApi.create(accessToken, activeFileId));
+        setConversationId(id);
+      }
+
+      // The server keeps the conversation, builds the financial context and calls the
+      // model, so only the question is sent and no key reaches the browser
+      await chatApi.stream(
+        accessToken,
+        { message: userInput, conversationId: id },
+        {
+          onDelta: (content) => updateReply(current => current + content),
+          onCitations: (citations) => setMessages(prev => [
+            ...prev.slice(0, -1),
+            { ...prev[prev.length - 1], citations },
+          ]),
+        },
+        controller.signal,
+      );
     } catch (error: any) {
-      console.error("Error in handleSend:", error);
-      const errorMessage = { 
-        role: "assistant", 
-        content: "Sorry, I encountered an error processing your request. Please try again." 
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      if (error.name === "AbortError") {
+        // Keep whatever arrived before Stop was pressed
+        setMessages(prev => {
+          const reply = prev[prev.length - 1];
+          return reply.content ? prev : [...prev.slice(0, -1), { ...reply, content: "Stopped." }];
+        });
+      } else {
+        console.error("Error calling chat API:", error);
+        setMessages(prev => [
+          ...prev.slice(0, -1),
+          {
+            role: "assistant",
+            content: `Sorry, I encountered an error: ${describeApiError(error, 'Failed to get a response')}. Please try again.`,
+          },
+        ]);
+      }
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsLoading(false);
+      // New titles, message counts and order
+      loadConversations(activeFileId).catch((error) => console.error('Failed to load conversations:', error));
+    }
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    setConversations(prev => prev.filter(conversation => conversation.id !== id));
+    if (id === conversationId) {
+      startConversation();
     }
   };
 
+  const handleConversationRenamed = (renamed: ConversationSummary) => {
+    setConversations(prev => prev.map(conversation => conversation.id === renamed.id ? renamed : conversation));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handlePromptClick = (prompt: string) => {
     setInput(prompt);
   };
@@ -256,13 +228,55 @@ ${JSON.stringify(financialContext, null, 2)}`,
             <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-full">
               <Bot className="w-5 h-5 text-white" />
             </div>
-            <div>
+            <div className="flex-1">
               <h3 className="text-sm text-gray-900">Smart Finance Assistant</h3>
               <p className="text-xs text-gray-600">Ask me anything about your finances</p>
             </div>
+            <Button
+              variant={showHistory ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              title="Saved conversations"
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={startConversation}
+              disabled={messages.length <= 1}
+              title="Start a new conversation"
+            >
+              <MessageSquarePlus className="w-4 h-4 mr-2" />
+              New conversation
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSettings(true)}
+              title="Assistant settings"
+            >
+              <Settings2 className="w-4 h-4" />
+            </Button>
           </div>
         </div>
 
+        <div className="flex-1 flex overflow-hidden">
+        {showHistory && (
+          <div className="w-56 border-r bg-gray-50 flex-shrink-0">
+            <ConversationHistory
+              accessToken={accessToken}
+              conversations={conversations}
+              activeConversationId={conversationId}
+              onSelect={openConversation}
+              onRenamed={handleConversationRenamed}
+              onDeleted={handleConversationDeleted}
+            />
+          </div>
+        )}
+
+        <div className="flex-1 flex flex-col overflow-hidden">
         {/* Messages */}
         <div className="flex-1 overflow-hidden">
           <ScrollArea className="h-full">
@@ -287,7 +301,34 @@ ${JSON.stringify(financialContext, null, 2)}`,
                       : "bg-gray-100 text-gray-900"
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-line">{message.content}</p>
+                  {message.content ? (
+                    <>
+                      <p className="text-sm whitespace-pre-line">{message.content}</p>
+                      {message.citations && message.citations.length > 0 && (
+                        <details className="mt-2 text-xs text-gray-600">
+                          <summary className="cursor-pointer">Based on {describeCitations(message.citations)}</summary>
+                          <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+                            {message.citations.map((citation) => (
+                              <li key={`${citation.kind}:${citation.id}`} className="flex justify-between gap-3">
+                                <span className="truncate">
+                                  {citation.date && <span className="text-gray-400 mr-1">{citation.date}</span>}
+                                  {citation.label}
+                                </span>
+                                <span className="flex-shrink-0">₹{citation.amount.toLocaleString()}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </>
+                  ) : (
+                    // Reply requested, nothing streamed in yet
+                    <div className="flex gap-1">
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                    </div>
+                  )}
                 </div>
 
                 {message.role === "user" && (
@@ -297,21 +338,7 @@ ${JSON.stringify(financialContext, null, 2)}`,
                 )}
               </div>
             ))}
-            
-            {isLoading && (
-              <div className="flex gap-3">
-                <div className="w-8 h-8 rounded-full bg-gradient-to-r from-blue-600 to-purple-600 flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-5 h-5 text-white" />
-                </div>
-                <div className="bg-gray-100 rounded-lg p-3">
-                  <div className="flex gap-1">
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
-                  </div>
-                </div>
-              </div>
-            )}
+
             </div>
           </ScrollArea>
         </div>
@@ -345,16 +372,34 @@ ${JSON.stringify(financialContext, null, 2)}`,
               placeholder="Ask me about your finances..."
               className="flex-1"
             />
-            <Button
-              onClick={handleSend}
-              disabled={!input.trim() || isLoading}
-              className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-            >
-              <Send className="w-4 h-4" />
-            </Button>
+            {isLoading ? (
+              <Button
+                onClick={handleStop}
+                variant="outline"
+                title="Stop answering"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
+        </div>
+        </div>
       </Card>
+
+      <AssistantSettingsDialog
+        accessToken={accessToken}
+        open={showSettings}
+        onOpenChange={setShowSettings}
+      />
     </div>
   );
 }
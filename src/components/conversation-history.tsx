@@ -0,0 +1,170 @@
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import { Download, MessageSquare, Pencil, Trash2 } from "lucide-react";
+import { useRef, useState } from "react";
+import { conversationApi, describeApiError } from "../utils/api";
+import { MAX_CONVERSATION_TITLE_LENGTH, type ConversationSummary } from "../supabase/functions/server/models";
+import { conversationFileName } from "../supabase/functions/server/conversations";
+import { toast } from "sonner@2.0.3";
+
+interface ConversationHistoryProps {
+  accessToken: string;
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  onSelect: (conversationId: string) => void;
+  onRenamed: (conversation: ConversationSummary) => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+const titleOf = (conversation: ConversationSummary) => conversation.title || "New conversation";
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Saved conversations about the current file, with rename, export and delete
+export function ConversationHistory({ accessToken, conversations, activeConversationId, onSelect, onRenamed, onDeleted }: ConversationHistoryProps) {
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  // Set by Escape so the blur that follows discards the edit
+  const cancelRename = useRef(false);
+
+  // Runs once, on blur: Enter and Escape only blur the input
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    const { id, title } = renaming;
+    setRenaming(null);
+    if (cancelRename.current) {
+      cancelRename.current = false;
+      return;
+    }
+    try {
+      const { conversation } = await conversationApi.rename(accessToken, id, title.trim() || null);
+      onRenamed(conversation);
+    } catch (error: any) {
+      console.error('Failed to rename conversation:', error);
+      toast.error(describeApiError(error, 'Failed to rename conversation'));
+    }
+  };
+
+  const handleExport = async (conversation: ConversationSummary) => {
+    try {
+      const blob = await conversationApi.exportMarkdown(accessToken, conversation.id);
+      downloadBlob(blob, conversationFileName(conversation));
+    } catch (error: any) {
+      console.error('Failed to export conversation:', error);
+      toast.error(describeApiError(error, 'Failed to export conversation'));
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      setIsDeleting(true);
+      await conversationApi.delete(accessToken, pendingDelete.id);
+      toast.success('Conversation deleted');
+      onDeleted(pendingDelete.id);
+    } catch (error: any) {
+      console.error('Failed to delete conversation:', error);
+      toast.error(describeApiError(error, 'Failed to delete conversation'));
+    } finally {
+      setIsDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <>
+    <ScrollArea className="h-full">
+      <div className="p-2 space-y-1">
+        {conversations.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-6">No saved conversations yet</p>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group rounded-md p-2 ${
+                conversation.id === activeConversationId ? "bg-blue-50 border border-blue-200" : "hover:bg-gray-50 border border-transparent"
+              }`}
+            >
+              {renaming?.id === conversation.id ? (
+                <Input
+                  autoFocus
+                  value={renaming.title}
+                  maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+                  onChange={(e) => setRenaming({ id: conversation.id, title: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === "Escape") cancelRename.current = true;
+                    if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+                  }}
+                  onBlur={handleRename}
+                  className="h-7 text-xs"
+                />
+              ) : (
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="w-full text-left"
+                >
+                  <p className="text-xs text-gray-900 truncate flex items-center gap-1">
+                    <MessageSquare className="w-3 h-3 flex-shrink-0 text-gray-400" />
+                    {titleOf(conversation)}
+                  </p>
+                  <p className="text-[11px] text-gray-500 mt-0.5">
+                    {new Date(conversation.updatedAt).toLocaleDateString()} · {conversation.messageCount} messages
+                  </p>
+                </button>
+              )}
+
+              <div className="flex gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button variant="ghost" size="sm" className="h-6 px-1.5" title="Rename" onClick={() => setRenaming({ id: conversation.id, title: conversation.title ?? "" })}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-1.5" title="Export as Markdown" onClick={() => handleExport(conversation)}>
+                  <Download className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-1.5 text-red-600 hover:text-red-700" title="Delete" onClick={() => setPendingDelete(conversation)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </ScrollArea>
+
+    <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{pendingDelete && titleOf(pendingDelete)}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The conversation and its {pendingDelete?.messageCount ?? 0} messages will be deleted permanently.
+            Export it first if you want to keep a copy.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirmDelete}
+            disabled={isDeleting}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isDeleting ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </>
+  );
+}
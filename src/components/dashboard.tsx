@@ -1,6 +1,6 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Button } from "./ui/button";
-import { Sparkles, Download, LogOut, TrendingUp, Wallet, PiggyBank, PieChart, CreditCard, Lightbulb, MessageCircle, Upload, History } from "lucide-react";
+import { Sparkles, Download, LogOut, TrendingUp, Wallet, PiggyBank, PieChart, CreditCard, Lightbulb, MessageCircle, Upload, History, Activity, Trash2, UserX, ArchiveRestore } from "lucide-react";
 import { IncomeOverview } from "./income-overview";
 import { ExpenditureSummary } from "./expenditure-summary";
 import { SavingsTracker } from "./savings-tracker";
@@ -8,9 +8,13 @@ import { CategorySpending } from "./category-spending";
 import { EmiTracker } from "./emi-tracker";
 import { SuggestionsSection } from "./suggestions-section";
 import { ChatbotPanel } from "./chatbot-panel";
+import { ActivityLog } from "./activity-log";
 import { ExportModal } from "./export-modal";
+import { RestoreModal } from "./restore-modal";
 import { UploadModal } from "./upload-modal";
 import { HistoryModal } from "./history-modal";
+import { TrashModal } from "./trash-modal";
+import { DeleteAccountDialog } from "./delete-account-dialog";
 import { useState, useEffect } from "react";
 import { fileApi } from "../utils/api";
 import { toast } from "sonner@2.0.3";
@@ -18,12 +22,16 @@ import { toast } from "sonner@2.0.3";
 interface DashboardProps {
   accessToken: string;
   onLogout: () => void;
+  onAccountDeleted: () => void;
 }
 
-export function Dashboard({ accessToken, onLogout }: DashboardProps) {
+export function Dashboard({ accessToken, onLogout, onAccountDeleted }: DashboardProps) {
   const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [restoreModalOpen, setRestoreModalOpen] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  const [trashModalOpen, setTrashModalOpen] = useState(false);
+  const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
   const [activeFileName, setActiveFileName] = useState<string | null>(null);
@@ -41,7 +49,7 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
       
       if (activeFileId) {
         setActiveFileId(activeFileId);
-        const activeFile = files?.find((f: any) => f.id === activeFileId);
+        const activeFile = files?.find((f) => f.id === activeFileId);
         if (activeFile) {
           setActiveFileName(activeFile.fileName);
         }
@@ -72,7 +80,7 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
     // Update the active file name
     try {
       const { files } = await fileApi.getAll(accessToken);
-      const activeFile = files?.find((f: any) => f.id === fileId);
+      const activeFile = files?.find((f) => f.id === fileId);
       if (activeFile) {
         setActiveFileName(activeFile.fileName);
       }
@@ -93,6 +101,37 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
     }, 500);
   };
 
+  const handleFileDeleted = async (fileId: string, newActiveFileId: string | null) => {
+    // Only the active file affects what the dashboard is showing
+    if (fileId !== activeFileId) return;
+
+    if (newActiveFileId) {
+      await handleFileSelect(newActiveFileId);
+    } else {
+      setActiveFileId(null);
+      setActiveFileName(null);
+      setRefreshKey(prev => prev + 1);
+    }
+  };
+
+  const handleBackupRestored = async (restoredActiveFileId: string | null) => {
+    if (restoredActiveFileId) {
+      await handleFileSelect(restoredActiveFileId);
+    } else {
+      setActiveFileId(null);
+      setActiveFileName(null);
+      setRefreshKey(prev => prev + 1);
+    }
+  };
+
+  const handleRestored = async () => {
+    // A restored file becomes active if none was, so pick that up before refreshing
+    if (!activeFileId) {
+      await fetchActiveFile();
+    }
+    setRefreshKey(prev => prev + 1);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
       {/* Header */}
@@ -134,6 +173,14 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
                 <History className="w-4 h-4 mr-2" />
                 History
               </Button>
+              <Button
+                onClick={() => setTrashModalOpen(true)}
+                variant="outline"
+                className="border-gray-300"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Trash
+              </Button>
               <Button
                 onClick={() => setUploadModalOpen(true)}
                 className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white"
@@ -149,6 +196,14 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
                 <Download className="w-4 h-4 mr-2" />
                 Export Data
               </Button>
+              <Button
+                onClick={() => setRestoreModalOpen(true)}
+                variant="outline"
+                className="border-gray-300"
+              >
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
               <Button
                 onClick={onLogout}
                 variant="outline"
@@ -157,6 +212,15 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
                 <LogOut className="w-4 h-4 mr-2" />
                 Logout
               </Button>
+              <Button
+                onClick={() => setDeleteAccountOpen(true)}
+                variant="ghost"
+                size="icon"
+                title="Delete my account"
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <UserX className="w-4 h-4" />
+              </Button>
             </div>
           </div>
         </div>
@@ -277,7 +341,7 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
           </div>
         ) : (
           <Tabs defaultValue="income" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7 bg-white border border-gray-200 p-1 h-auto">
+          <TabsList className="grid w-full grid-cols-8 bg-white border border-gray-200 p-1 h-auto">
             <TabsTrigger value="income" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3">
               <TrendingUp className="w-4 h-4" />
               <span className="text-xs sm:text-sm">Income</span>
@@ -306,6 +370,10 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
               <MessageCircle className="w-4 h-4" />
               <span className="text-xs sm:text-sm">Chat</span>
             </TabsTrigger>
+            <TabsTrigger value="activity" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-3">
+              <Activity className="w-4 h-4" />
+              <span className="text-xs sm:text-sm">Activity</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="income">
@@ -335,6 +403,10 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
           <TabsContent value="chatbot">
             <ChatbotPanel key={`chatbot-${refreshKey}`} accessToken={accessToken} activeFileId={activeFileId} />
           </TabsContent>
+
+          <TabsContent value="activity">
+            <ActivityLog key={`activity-${refreshKey}`} accessToken={accessToken} activeFileId={activeFileId} />
+          </TabsContent>
         </Tabs>
         )}
       </main>
@@ -344,13 +416,37 @@ export function Dashboard({ accessToken, onLogout }: DashboardProps) {
         open={historyModalOpen}
         onOpenChange={setHistoryModalOpen}
         onFileSelect={handleFileSelect}
+        onFileDeleted={handleFileDeleted}
+        onFileRestored={handleRestored}
         activeFileId={activeFileId}
       />
 
+      <TrashModal
+        accessToken={accessToken}
+        open={trashModalOpen}
+        onOpenChange={setTrashModalOpen}
+        onRestored={handleRestored}
+      />
+
+      <DeleteAccountDialog
+        accessToken={accessToken}
+        open={deleteAccountOpen}
+        onOpenChange={setDeleteAccountOpen}
+        onAccountDeleted={onAccountDeleted}
+      />
+
       <ExportModal 
         accessToken={accessToken}
         open={exportModalOpen} 
         onOpenChange={setExportModalOpen} 
+        activeFileId={activeFileId}
+      />
+
+      <RestoreModal
+        accessToken={accessToken}
+        open={restoreModalOpen}
+        onOpenChange={setRestoreModalOpen}
+        onRestoreComplete={handleBackupRestored}
       />
 
       <UploadModal
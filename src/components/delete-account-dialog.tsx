@@ -0,0 +1,166 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { AlertTriangle, CheckCircle2, Download } from "lucide-react";
+import { useState, useEffect } from "react";
+import { authApi, describeApiError } from "../utils/api";
+import type { DeletionReceipt } from "../supabase/functions/server/models";
+import { toast } from "sonner@2.0.3";
+
+const CONFIRM_PHRASE = "DELETE";
+
+interface DeleteAccountDialogProps {
+  accessToken: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAccountDeleted: () => void;
+}
+
+export function DeleteAccountDialog({ accessToken, open, onOpenChange, onAccountDeleted }: DeleteAccountDialogProps) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPassword("");
+      setConfirmation("");
+    }
+  }, [open]);
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      const { receipt } = await authApi.deleteAccount(accessToken, password);
+      setReceipt(receipt);
+    } catch (error: any) {
+      console.error('Failed to delete account:', error);
+      toast.error(describeApiError(error, 'Failed to delete account'));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleDownloadReceipt = () => {
+    if (!receipt) return;
+
+    const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `wealthgenie-deletion-receipt-${receipt.completedAt.split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Once the account is gone the session is useless, so closing always signs out
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isDeleting) return;
+    if (receipt && !isOpen) {
+      onAccountDeleted();
+      return;
+    }
+    onOpenChange(isOpen);
+  };
+
+  const canDelete = password.length > 0 && confirmation === CONFIRM_PHRASE && !isDeleting;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        {receipt ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Account deleted</DialogTitle>
+              <DialogDescription>
+                Your account and all of its data have been erased
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5" />
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p>{receipt.erased.files} files, {receipt.erased.transactions} transactions, {receipt.erased.emis} EMIs and {receipt.erased.savingsGoals} savings goals</p>
+                  <p>{receipt.erased.auditEntries} activity entries, {receipt.erased.trashItems} trash items and {receipt.erased.conversations} assistant conversations</p>
+                  <p className="text-xs text-gray-500">Receipt {receipt.id} · {new Date(receipt.completedAt).toLocaleString()}</p>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleDownloadReceipt} variant="outline" className="flex-1">
+                  <Download className="w-4 h-4 mr-2" />
+                  Download receipt
+                </Button>
+                <Button onClick={onAccountDeleted} className="flex-1">
+                  Done
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Delete my account</DialogTitle>
+              <DialogDescription>
+                Permanently delete your account and everything stored with it
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+                <p className="text-sm text-gray-700">
+                  All uploaded files, transactions, EMIs, savings goals, activity history, trash and saved assistant conversations will be erased.
+                  This can't be undone — export your data first if you want to keep a copy.
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="delete-password">Password *</Label>
+                <Input
+                  id="delete-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="delete-confirmation">Type {CONFIRM_PHRASE} to confirm *</Label>
+                <Input
+                  id="delete-confirmation"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button
+                  onClick={handleDelete}
+                  disabled={!canDelete}
+                  className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+                >
+                  {isDeleting ? 'Deleting...' : 'Delete my account'}
+                </Button>
+                <Button
+                  onClick={() => onOpenChange(false)}
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isDeleting}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,20 +7,55 @@ import { Label } from "./ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Clock, AlertCircle, CheckCircle2, Calendar, Plus, CreditCard, Edit2, Trash2 } from "lucide-react";
 import { useState, useEffect } from "react";
-import { emiApi } from "../utils/api";
+import { emiApi, trashApi, describeApiError, ConflictError } from "../utils/api";
+import type { Emi } from "../supabase/functions/server/models";
 import { toast } from "sonner@2.0.3";
 
+// An EMI with its days until due, computed when loaded
+type TrackedEmi = Emi & { daysLeft: number };
+
+function trackEmi(emi: Emi, now: Date): TrackedEmi {
+  const dueDate = new Date(emi.dueDate);
+  const daysLeft = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+  return {
+    ...emi,
+    daysLeft,
+    status: emi.status || (daysLeft < 0 ? 'overdue' : 'upcoming'),
+  };
+}
+
+type EmiForm = { name: string; amount: string; dueDate: string; totalAmount: string; paid: string };
+
+function emiFormFrom(emi: Emi): EmiForm {
+  return {
+    name: emi.name,
+    amount: emi.amount.toString(),
+    dueDate: emi.dueDate,
+    totalAmount: emi.totalAmount?.toString() || '',
+    paid: emi.paid?.toString() || '0',
+  };
+}
+
+const emiFieldLabels: Record<keyof EmiForm, string> = {
+  name: 'name',
+  amount: 'monthly amount',
+  dueDate: 'due date',
+  totalAmount: 'total loan amount',
+  paid: 'amount paid',
+};
+
 interface EmiTrackerProps {
   accessToken: string;
   activeFileId: string | null;
 }
 
 export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
-  const [emiData, setEmiData] = useState<any[]>([]);
+  const [emiData, setEmiData] = useState<TrackedEmi[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [emiModalOpen, setEmiModalOpen] = useState(false);
-  const [editingEmi, setEditingEmi] = useState<any>(null);
-  const [emiForm, setEmiForm] = useState({
+  const [editingEmi, setEditingEmi] = useState<TrackedEmi | null>(null);
+  const [emiForm, setEmiForm] = useState<EmiForm>({
     name: '',
     amount: '',
     dueDate: '',
@@ -47,16 +82,7 @@ export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
       
       // Calculate days left for each EMI using real-time date
       const now = new Date();
-      const processedEmis = (emis || []).map((emi: any) => {
-        const dueDate = new Date(emi.dueDate);
-        const daysLeft = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        return {
-          ...emi,
-          daysLeft,
-          status: emi.status || (daysLeft < 0 ? 'overdue' : 'upcoming'),
-        };
-      });
+      const processedEmis = (emis || []).map((emi) => trackEmi(emi, now));
       
       setEmiData(processedEmis);
     } catch (error: any) {
@@ -66,16 +92,10 @@ export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
     }
   };
 
-  const handleOpenEmiModal = (emi?: any) => {
+  const handleOpenEmiModal = (emi?: TrackedEmi) => {
     if (emi) {
       setEditingEmi(emi);
-      setEmiForm({
-        name: emi.name,
-        amount: emi.amount.toString(),
-        dueDate: emi.dueDate,
-        totalAmount: emi.totalAmount?.toString() || '',
-        paid: emi.paid?.toString() || '0',
-      });
+      setEmiForm(emiFormFrom(emi));
     } else {
       setEditingEmi(null);
       setEmiForm({
@@ -108,8 +128,7 @@ export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
           dueDate: emiForm.dueDate,
           totalAmount: emiForm.totalAmount ? parseFloat(emiForm.totalAmount) : 0,
           paid: emiForm.paid ? parseFloat(emiForm.paid) : 0,
-          fileId: activeFileId,
-        });
+        }, editingEmi.version);
         toast.success('EMI updated successfully!');
       } else {
         await emiApi.add(accessToken, {
@@ -126,19 +145,50 @@ export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
       setEmiModalOpen(false);
       fetchEmis();
     } catch (error: any) {
+      if (error instanceof ConflictError && editingEmi) {
+        // Changed elsewhere since the dialog opened. Saving the form again would overwrite
+        // that change, so load the stored version and let the user re-apply their edits.
+        const current: Emi = error.current;
+        const opened = emiFormFrom(editingEmi);
+        const latest = emiFormFrom(current);
+        const changed = (Object.keys(latest) as (keyof EmiForm)[])
+          .filter((field) => latest[field] !== opened[field])
+          .map((field) => emiFieldLabels[field]);
+        setEditingEmi(trackEmi(current, new Date()));
+        setEmiForm(latest);
+        fetchEmis();
+        toast.error(`This EMI was changed in another tab${changed.length > 0 ? ` (${changed.join(', ')})` : ''}. The form now shows the latest version — re-enter your changes and save again.`);
+        return;
+      }
       console.error('Failed to save EMI:', error);
-      toast.error('Failed to save EMI');
+      toast.error(describeApiError(error, 'Failed to save EMI'));
     }
   };
 
-  const handleDeleteEmi = async (emiId: string) => {
-    if (!confirm('Are you sure you want to delete this EMI?')) return;
+  const handleUndoDelete = async (trashId: string) => {
+    try {
+      await trashApi.restore(accessToken, trashId);
+      toast.success('EMI restored');
+      fetchEmis();
+    } catch (error: any) {
+      console.error('Failed to restore EMI:', error);
+      toast.error(describeApiError(error, 'Failed to restore EMI'));
+    }
+  };
 
+  const handleDeleteEmi = async (emi: TrackedEmi) => {
     try {
-      await emiApi.delete(accessToken, emiId);
-      toast.success('EMI deleted successfully!');
+      const { trashId } = await emiApi.delete(accessToken, emi.id, emi.version);
+      toast.success(`${emi.name} moved to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDelete(trashId) },
+      });
       fetchEmis();
     } catch (error: any) {
+      if (error instanceof ConflictError) {
+        fetchEmis();
+        toast.error('This EMI was changed in another tab. Review the latest version and delete again if needed.');
+        return;
+      }
       console.error('Failed to delete EMI:', error);
       toast.error('Failed to delete EMI');
     }
@@ -339,7 +389,7 @@ export function EmiTracker({ accessToken, activeFileId }: EmiTrackerProps) {
                           <Button
                             size="sm"
                             variant="ghost"
-                            onClick={() => handleDeleteEmi(emi.id)}
+                            onClick={() => handleDeleteEmi(emi)}
                           >
                             <Trash2 className="w-4 h-4 text-red-600" />
                           </Button>
@@ -2,8 +2,10 @@ import { Card } from "./ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { TrendingDown, AlertCircle, ShoppingCart } from "lucide-react";
-import { useState, useEffect } from "react";
-import { transactionApi } from "../utils/api";
+import { useState, useEffect, useRef } from "react";
+import { summaryApi } from "../utils/api";
+import type { DashboardSummary } from "../supabase/functions/server/models";
+import { TransactionList } from "./transaction-list";
 
 interface ExpenditureSummaryProps {
   accessToken: string;
@@ -11,96 +13,72 @@ interface ExpenditureSummaryProps {
 }
 
 export function ExpenditureSummary({ accessToken, activeFileId }: ExpenditureSummaryProps) {
-  const [transactions, setTransactions] = useState<any[]>([]);
-  const [allTransactions, setAllTransactions] = useState<any[]>([]);
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState<string>("all");
   const [selectedMonth, setSelectedMonth] = useState("all");
   const [availableYears, setAvailableYears] = useState<string[]>([]);
+  // File whose years last set the default, so picking "All Years" afterwards sticks
+  const defaultYearFileId = useRef<string | null>(null);
 
   useEffect(() => {
-    fetchAllTransactions();
-  }, [activeFileId]);
+    fetchSummary();
+  }, [activeFileId, selectedYear, selectedMonth]);
 
-  useEffect(() => {
-    applyFilters();
-  }, [selectedYear, selectedMonth, allTransactions]);
-
-  const fetchAllTransactions = async () => {
+  const fetchSummary = async () => {
     try {
       setIsLoading(true);
       
       // Only fetch if we have an active file
       if (!activeFileId) {
-        setAllTransactions([]);
+        setSummary(null);
         setAvailableYears([]);
-        setTransactions([]);
         setIsLoading(false);
         return;
       }
       
-      const filters: any = { type: "Expense", fileId: activeFileId };
-      const { transactions } = await transactionApi.getAll(accessToken, filters);
-      const txns = transactions || [];
-      setAllTransactions(txns);
-      
-      // Extract available years from transactions
-      const years = Array.from(new Set(
-        txns.map((t: any) => new Date(t.date).getFullYear().toString())
-      )).sort((a, b) => parseInt(b) - parseInt(a));
+      const { summary } = await summaryApi.get(accessToken, {
+        fileId: activeFileId,
+        type: "Expense",
+        year: selectedYear !== "all" ? selectedYear : undefined,
+        month: selectedMonth !== "all" ? selectedMonth : undefined,
+      });
+      setSummary(summary);
+
+      const years: string[] = summary?.availableYears || [];
       setAvailableYears(years);
       
-      // Set default year to the most recent
-      if (years.length > 0 && selectedYear === "all") {
-        setSelectedYear(years[0]);
+      // Set default year to the most recent when a file is first shown
+      if (defaultYearFileId.current !== activeFileId) {
+        defaultYearFileId.current = activeFileId;
+        if (years.length > 0 && selectedYear === "all") {
+          setSelectedYear(years[0]);
+        }
       }
     } catch (error: any) {
-      console.error('Failed to fetch transactions:', error);
+      console.error('Failed to fetch summary:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const applyFilters = () => {
-    let filtered = [...allTransactions];
-    
-    if (selectedYear !== "all") {
-      filtered = filtered.filter(t => 
-        new Date(t.date).getFullYear().toString() === selectedYear
-      );
-    }
-    
-    if (selectedMonth !== "all") {
-      filtered = filtered.filter(t => 
-        new Date(t.date).getMonth() === parseInt(selectedMonth)
-      );
-    }
-    
-    setTransactions(filtered);
-  };
-
-  const totalExpenses = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const totalExpenses: number = summary?.totals.expense || 0;
+  const expenseCount: number = summary?.totals.expenseCount || 0;
+  const categories = summary?.byCategory || [];
   
-  // Find most expensive category
-  const categoryMap = new Map<string, number>();
-  transactions.forEach(t => {
-    categoryMap.set(t.category, (categoryMap.get(t.category) || 0) + t.amount);
-  });
+  // Categories arrive sorted by amount, highest first
+  const mostExpensiveCategory = categories[0]?.name || "N/A";
   
-  const mostExpensiveCategory = Array.from(categoryMap.entries())
-    .sort((a, b) => b[1] - a[1])[0]?.[0] || "N/A";
-  
-  // Find highest single expense
-  const highestTransaction = transactions.sort((a, b) => b.amount - a.amount)[0];
+  const highestTransaction = summary?.largestExpense;
   const highestExpense = highestTransaction 
     ? `${highestTransaction.description} - ₹${highestTransaction.amount.toLocaleString()}`
     : "N/A";
 
-  // Group by month for chart
+  // Fold the yyyy-mm series into calendar months for the chart
   const monthMap = new Map<number, number>();
-  transactions.forEach(t => {
-    const month = new Date(t.date).getMonth();
-    monthMap.set(month, (monthMap.get(month) || 0) + t.amount);
+  (summary?.monthly || []).forEach((m) => {
+    const month = parseInt(m.month.slice(5)) - 1;
+    monthMap.set(month, (monthMap.get(month) || 0) + m.expense);
   });
 
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
@@ -169,7 +147,7 @@ export function ExpenditureSummary({ accessToken, activeFileId }: ExpenditureSum
               <h3 className="text-2xl text-gray-900">₹{totalExpenses.toLocaleString()}</h3>
               <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
                 <TrendingDown className="w-3 h-3" />
-                {transactions.length} transaction{transactions.length !== 1 ? 's' : ''}
+                {expenseCount} transaction{expenseCount !== 1 ? 's' : ''}
               </p>
             </div>
             <div className="bg-red-100 p-3 rounded-full">
@@ -184,7 +162,7 @@ export function ExpenditureSummary({ accessToken, activeFileId }: ExpenditureSum
               <p className="text-sm text-gray-600 mb-1">Most Expensive Category</p>
               <h3 className="text-lg text-gray-900">{mostExpensiveCategory}</h3>
               <p className="text-xs text-orange-600 mt-1">
-                {categoryMap.get(mostExpensiveCategory) ? `₹${categoryMap.get(mostExpensiveCategory)?.toLocaleString()}` : 'N/A'}
+                {categories[0] ? `₹${categories[0].amount.toLocaleString()}` : 'N/A'}
               </p>
             </div>
             <div className="bg-orange-100 p-3 rounded-full">
@@ -234,10 +212,9 @@ export function ExpenditureSummary({ accessToken, activeFileId }: ExpenditureSum
       <Card className="p-6">
         <h3 className="text-lg text-gray-900 mb-4">Top Spending Categories</h3>
         <div className="space-y-4">
-          {Array.from(categoryMap.entries())
-            .sort((a, b) => b[1] - a[1])
+          {categories
             .slice(0, 5)
-            .map(([category, amount], index) => {
+            .map(({ name: category, amount }, index) => {
               const colors = ['blue', 'green', 'purple', 'orange', 'pink'];
               const color = colors[index % colors.length];
               
@@ -256,6 +233,17 @@ export function ExpenditureSummary({ accessToken, activeFileId }: ExpenditureSum
             })}
         </div>
       </Card>
+
+      {/* Transactions */}
+      <TransactionList
+        accessToken={accessToken}
+        activeFileId={activeFileId}
+        title="Expense Transactions"
+        type="Expense"
+        selectedYear={selectedYear}
+        selectedMonth={selectedMonth}
+        onTransactionUpdated={() => fetchSummary()}
+      />
     </div>
   );
 }
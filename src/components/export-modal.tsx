@@ -2,19 +2,48 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "./ui/button";
 import { Checkbox } from "./ui/checkbox";
 import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Download, FileSpreadsheet, CheckCircle2 } from "lucide-react";
-import { useState } from "react";
-import { exportApi } from "../utils/api";
+import { useState, useEffect } from "react";
+import { exportApi, summaryApi, emiApi, savingsApi, fileApi, describeApiError } from "../utils/api";
+import { WORKBOOK_SECTIONS, type ExportFormat, type FileRecord, type WorkbookSection } from "../supabase/functions/server/models";
+import { buildMonthlyReport } from "../utils/report";
+import { buildInsights } from "../utils/insights";
 import { toast } from "sonner@2.0.3";
 
 interface ExportModalProps {
   accessToken: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  activeFileId: string | null;
 }
 
-export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProps) {
-  const [exportOptions, setExportOptions] = useState({
+// The PDF report is built in the browser from the summary, EMI and savings endpoints
+type ExportChoice = ExportFormat | "pdf";
+
+const formatDescriptions: Record<ExportChoice, string> = {
+  xlsx: "An Excel file (.xlsx) with separate sheets for each selected section. The workbook can be uploaded again as a new file.",
+  csv: "A .zip with one CSV per entity (files, transactions, EMIs, savings goals) and a manifest describing the export. For spreadsheets only — use JSON for a backup you can restore.",
+  json: "A JSON file with everything in the selected scope. Use it with Restore to bring the data back later.",
+  pdf: "A printable one-month report for the chosen file: income by source, expenses by category, EMI status, savings goal progress and top suggestions.",
+};
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function ExportModal({ accessToken, open, onOpenChange, activeFileId }: ExportModalProps) {
+  const [exportOptions, setExportOptions] = useState<Record<WorkbookSection, boolean>>({
     income: true,
     expenses: true,
     savings: true,
@@ -22,24 +51,86 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
     emis: true,
     summary: true,
   });
+  const [format, setFormat] = useState<ExportChoice>("xlsx");
+  const [scope, setScope] = useState<"file" | "all">("file");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [files, setFiles] = useState<FileRecord[]>([]);
+  const [reportFileId, setReportFileId] = useState("");
+  const [reportMonth, setReportMonth] = useState(currentMonth);
   const [exported, setExported] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
+  useEffect(() => {
+    if (open) {
+      setScope(activeFileId ? "file" : "all");
+      setReportFileId(activeFileId ?? "");
+    }
+  }, [open, activeFileId]);
+
+  // The report covers a single file, so offer every file rather than just the active one
+  useEffect(() => {
+    if (!open || format !== "pdf") return;
+
+    fileApi.getAll(accessToken)
+      .then(({ files }) => {
+        setFiles(files);
+        setReportFileId((current) => current || files[0]?.id || "");
+      })
+      .catch((error) => {
+        console.error('Error loading files:', error);
+        toast.error(describeApiError(error, 'Failed to load files'));
+      });
+  }, [open, format, accessToken]);
+
+  // Workbook sections only apply to Excel; JSON and CSV always carry every entity
+  const canExport = format === "pdf"
+    ? Boolean(reportFileId && reportMonth)
+    : format !== "xlsx" || Object.values(exportOptions).some(v => v);
+
+  const exportReport = async () => {
+    const [year, month] = reportMonth.split('-');
+    const [{ summary }, { emis }, { savings }] = await Promise.all([
+      // The summary endpoint takes a 0-based month
+      summaryApi.get(accessToken, { fileId: reportFileId, year, month: String(parseInt(month) - 1) }),
+      emiApi.getAll(accessToken, { fileId: reportFileId }),
+      savingsApi.getAll(accessToken, { fileId: reportFileId }),
+    ]);
+
+    const report = buildMonthlyReport({
+      month: reportMonth,
+      fileName: files.find((file) => file.id === reportFileId)?.fileName ?? 'Financial data',
+      summary,
+      emis,
+      goals: savings,
+      insights: buildInsights(summary),
+    });
+    report.save(`wealthgenie-report-${reportMonth}.pdf`);
+  };
+
   const handleExport = async () => {
+    const filters = {
+      fileId: scope === "file" && activeFileId ? activeFileId : "all",
+      from: from || undefined,
+      to: to || undefined,
+    };
+    const date = new Date().toISOString().split('T')[0];
+
     try {
       setIsExporting(true);
-      const data = await exportApi.getData(accessToken);
-      
-      // Create JSON blob and download
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `wealthgenie-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+
+      if (format === "pdf") {
+        await exportReport();
+      } else if (format === "xlsx") {
+        const sections = WORKBOOK_SECTIONS.filter((section) => exportOptions[section]);
+        downloadBlob(await exportApi.getWorkbook(accessToken, sections, filters), `wealthgenie-export-${date}.xlsx`);
+      } else if (format === "csv") {
+        downloadBlob(await exportApi.getCsvArchive(accessToken, filters), `wealthgenie-export-${date}.zip`);
+      } else {
+        const data = await exportApi.getData(accessToken, filters);
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+        downloadBlob(blob, `wealthgenie-export-${date}.json`);
+      }
 
       setExported(true);
       toast.success("Data exported successfully!");
@@ -50,7 +141,7 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
       }, 2000);
     } catch (error: any) {
       console.error('Export error:', error);
-      toast.error(error.message || 'Failed to export data');
+      toast.error(describeApiError(error, 'Failed to export data'));
     } finally {
       setIsExporting(false);
     }
@@ -69,7 +160,7 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
             Export Financial Data
           </DialogTitle>
           <DialogDescription>
-            Choose which data to include in your Excel export
+            Choose what to export and in which format
           </DialogDescription>
         </DialogHeader>
 
@@ -86,91 +177,158 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
         ) : (
           <>
             <div className="space-y-4 py-4">
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="income"
-                    checked={exportOptions.income}
-                    onCheckedChange={() => toggleOption("income")}
-                  />
-                  <Label htmlFor="income" className="cursor-pointer">
-                    <div>
-                      <p className="text-sm text-gray-900">Income Data</p>
-                      <p className="text-xs text-gray-600">All income sources and monthly trends</p>
-                    </div>
-                  </Label>
+              <div className="grid grid-cols-2 gap-4">
+                {format === "pdf" ? (
+                  <div>
+                    <Label htmlFor="report-file">File</Label>
+                    <Select value={reportFileId} onValueChange={setReportFileId}>
+                      <SelectTrigger id="report-file">
+                        <SelectValue placeholder={files.length === 0 ? "No files uploaded" : "Choose a file"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {files.map((file) => (
+                          <SelectItem key={file.id} value={file.id}>{file.fileName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                <div>
+                  <Label htmlFor="export-scope">Data</Label>
+                  <Select value={scope} onValueChange={(value) => setScope(value as "file" | "all")}>
+                    <SelectTrigger id="export-scope">
+                      <SelectValue placeholder="Scope" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="file" disabled={!activeFileId}>Active file</SelectItem>
+                      <SelectItem value="all">All files</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+                )}
 
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="expenses"
-                    checked={exportOptions.expenses}
-                    onCheckedChange={() => toggleOption("expenses")}
-                  />
-                  <Label htmlFor="expenses" className="cursor-pointer">
-                    <div>
-                      <p className="text-sm text-gray-900">Expense Data</p>
-                      <p className="text-xs text-gray-600">Detailed expense transactions</p>
-                    </div>
-                  </Label>
+                <div>
+                  <Label htmlFor="export-format">Format</Label>
+                  <Select value={format} onValueChange={(value) => setFormat(value as ExportChoice)}>
+                    <SelectTrigger id="export-format">
+                      <SelectValue placeholder="Format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                      <SelectItem value="csv">CSV (.zip)</SelectItem>
+                      <SelectItem value="json">JSON backup</SelectItem>
+                      <SelectItem value="pdf">Monthly report (.pdf)</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
 
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="savings"
-                    checked={exportOptions.savings}
-                    onCheckedChange={() => toggleOption("savings")}
-                  />
-                  <Label htmlFor="savings" className="cursor-pointer">
+                {format === "pdf" ? (
+                  <div>
+                    <Label htmlFor="report-month">Month</Label>
+                    <Input id="report-month" type="month" value={reportMonth} max={currentMonth()} onChange={(e) => setReportMonth(e.target.value)} />
+                  </div>
+                ) : (
+                  <>
                     <div>
-                      <p className="text-sm text-gray-900">Savings & Goals</p>
-                      <p className="text-xs text-gray-600">Savings goals and progress</p>
+                      <Label htmlFor="export-from">From</Label>
+                      <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
                     </div>
-                  </Label>
-                </div>
 
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="categories"
-                    checked={exportOptions.categories}
-                    onCheckedChange={() => toggleOption("categories")}
-                  />
-                  <Label htmlFor="categories" className="cursor-pointer">
                     <div>
-                      <p className="text-sm text-gray-900">Category Breakdown</p>
-                      <p className="text-xs text-gray-600">Spending by category</p>
+                      <Label htmlFor="export-to">To</Label>
+                      <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
                     </div>
-                  </Label>
-                </div>
+                  </>
+                )}
+              </div>
 
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="emis"
-                    checked={exportOptions.emis}
-                    onCheckedChange={() => toggleOption("emis")}
-                  />
-                  <Label htmlFor="emis" className="cursor-pointer">
-                    <div>
-                      <p className="text-sm text-gray-900">EMI & Loans</p>
-                      <p className="text-xs text-gray-600">Loan details and payment schedule</p>
-                    </div>
-                  </Label>
-                </div>
+              {format === "xlsx" && (
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="income"
+                      checked={exportOptions.income}
+                      onCheckedChange={() => toggleOption("income")}
+                    />
+                    <Label htmlFor="income" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">Income Data</p>
+                        <p className="text-xs text-gray-600">All income sources and monthly trends</p>
+                      </div>
+                    </Label>
+                  </div>
 
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="summary"
-                    checked={exportOptions.summary}
-                    onCheckedChange={() => toggleOption("summary")}
-                  />
-                  <Label htmlFor="summary" className="cursor-pointer">
-                    <div>
-                      <p className="text-sm text-gray-900">Executive Summary</p>
-                      <p className="text-xs text-gray-600">Overview and key metrics</p>
-                    </div>
-                  </Label>
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="expenses"
+                      checked={exportOptions.expenses}
+                      onCheckedChange={() => toggleOption("expenses")}
+                    />
+                    <Label htmlFor="expenses" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">Expense Data</p>
+                        <p className="text-xs text-gray-600">Detailed expense transactions</p>
+                      </div>
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="savings"
+                      checked={exportOptions.savings}
+                      onCheckedChange={() => toggleOption("savings")}
+                    />
+                    <Label htmlFor="savings" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">Savings & Goals</p>
+                        <p className="text-xs text-gray-600">Savings goals and progress</p>
+                      </div>
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="categories"
+                      checked={exportOptions.categories}
+                      onCheckedChange={() => toggleOption("categories")}
+                    />
+                    <Label htmlFor="categories" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">Category Breakdown</p>
+                        <p className="text-xs text-gray-600">Spending by category</p>
+                      </div>
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="emis"
+                      checked={exportOptions.emis}
+                      onCheckedChange={() => toggleOption("emis")}
+                    />
+                    <Label htmlFor="emis" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">EMI & Loans</p>
+                        <p className="text-xs text-gray-600">Loan details and payment schedule</p>
+                      </div>
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id="summary"
+                      checked={exportOptions.summary}
+                      onCheckedChange={() => toggleOption("summary")}
+                    />
+                    <Label htmlFor="summary" className="cursor-pointer">
+                      <div>
+                        <p className="text-sm text-gray-900">Executive Summary</p>
+                        <p className="text-xs text-gray-600">Overview and key metrics</p>
+                      </div>
+                    </Label>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -179,7 +337,8 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
                 <div className="text-sm">
                   <h4 className="text-blue-900 mb-1">Export Format</h4>
                   <p className="text-blue-700">
-                    Data will be exported as an Excel file (.xlsx) with separate sheets for each selected category.
+                    {formatDescriptions[format]}
+                    {format !== "pdf" && (from || to) && ' The date range applies to transactions.'}
                   </p>
                 </div>
               </div>
@@ -188,11 +347,11 @@ export function ExportModal({ accessToken, open, onOpenChange }: ExportModalProp
             <div className="flex items-center gap-3 pt-2">
               <Button
                 onClick={handleExport}
-                disabled={!Object.values(exportOptions).some(v => v) || isExporting}
+                disabled={!canExport || isExporting}
                 className="flex-1 bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white"
               >
                 <Download className="w-4 h-4 mr-2" />
-                {isExporting ? "Exporting..." : "Download Data (JSON)"}
+                {isExporting ? "Exporting..." : "Download"}
               </Button>
               <Button
                 variant="outline"
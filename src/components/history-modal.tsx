@@ -1,8 +1,10 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
 import { Button } from "./ui/button";
-import { FileSpreadsheet, Calendar, CheckCircle2, Clock } from "lucide-react";
+import { FileSpreadsheet, Calendar, CheckCircle2, Clock, Trash2 } from "lucide-react";
 import { useState, useEffect } from "react";
-import { fileApi } from "../utils/api";
+import { fileApi, trashApi, describeApiError, ConflictError } from "../utils/api";
+import { TRASH_RETENTION_DAYS, type FileRecord } from "../supabase/functions/server/models";
 import { toast } from "sonner@2.0.3";
 
 interface HistoryModalProps {
@@ -10,19 +12,19 @@ interface HistoryModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onFileSelect: (fileId: string) => void;
+  onFileDeleted: (fileId: string, newActiveFileId: string | null) => void;
+  onFileRestored: () => void;
   activeFileId: string | null;
 }
 
-interface FileRecord {
-  id: string;
-  fileName: string;
-  transactionCount: number;
-  uploadedAt: string;
-}
-
-export function HistoryModal({ accessToken, open, onOpenChange, onFileSelect, activeFileId }: HistoryModalProps) {
+export function HistoryModal({ accessToken, open, onOpenChange, onFileSelect, onFileDeleted, onFileRestored, activeFileId }: HistoryModalProps) {
   const [files, setFiles] = useState<FileRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<{
+    file: FileRecord;
+    counts: { transactions: number; emis: number; savingsGoals: number };
+  } | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
 
   useEffect(() => {
     if (open) {
@@ -59,7 +61,57 @@ export function HistoryModal({ accessToken, open, onOpenChange, onFileSelect, ac
     }
   };
 
+  const handleRequestDelete = async (file: FileRecord) => {
+    try {
+      // Fetch record counts so the confirmation shows exactly what will be removed
+      const { counts } = await fileApi.get(accessToken, file.id);
+      setPendingDelete({ file, counts });
+    } catch (error: any) {
+      console.error('Failed to load file details:', error);
+      toast.error('Failed to load file details');
+    }
+  };
+
+  const handleUndoDelete = async (trashId: string) => {
+    try {
+      await trashApi.restore(accessToken, trashId);
+      toast.success('File restored');
+      if (open) fetchFiles();
+      onFileRestored();
+    } catch (error: any) {
+      console.error('Failed to restore file:', error);
+      toast.error(describeApiError(error, 'Failed to restore file'));
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    const { file } = pendingDelete;
+    try {
+      setIsDeleting(true);
+      const { activeFileId: newActiveFileId, trashId } = await fileApi.delete(accessToken, file.id, file.version);
+      toast.success(`Moved ${file.fileName} and all of its data to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDelete(trashId) },
+      });
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      onFileDeleted(file.id, newActiveFileId);
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        fetchFiles();
+        toast.error('This file was changed in another tab. Review the latest version and delete again if needed.');
+        return;
+      }
+      console.error('Failed to delete file:', error);
+      toast.error(describeApiError(error, 'Failed to delete file'));
+    } finally {
+      setIsDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
   return (
+    <>
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
@@ -130,18 +182,30 @@ export function HistoryModal({ accessToken, open, onOpenChange, onFileSelect, ac
                         </div>
                       </div>
                     </div>
-                    {!isActive && (
+                    <div className="flex items-center gap-2">
+                      {!isActive && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleFileSelect(file.id);
+                          }}
+                        >
+                          View
+                        </Button>
+                      )}
                       <Button
                         size="sm"
-                        variant="outline"
+                        variant="ghost"
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleFileSelect(file.id);
+                          handleRequestDelete(file);
                         }}
                       >
-                        View
+                        <Trash2 className="w-4 h-4 text-red-600" />
                       </Button>
-                    )}
+                    </div>
                   </div>
                 </div>
               );
@@ -150,5 +214,32 @@ export function HistoryModal({ accessToken, open, onOpenChange, onFileSelect, ac
         </div>
       </DialogContent>
     </Dialog>
+
+    <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {pendingDelete?.file.fileName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will move the file to the trash along with{' '}
+            {pendingDelete?.counts.transactions ?? 0} transaction{pendingDelete?.counts.transactions !== 1 ? 's' : ''},{' '}
+            {pendingDelete?.counts.emis ?? 0} EMI{pendingDelete?.counts.emis !== 1 ? 's' : ''} and{' '}
+            {pendingDelete?.counts.savingsGoals ?? 0} savings goal{pendingDelete?.counts.savingsGoals !== 1 ? 's' : ''}.
+            {' '}You can restore it from the trash for {TRASH_RETENTION_DAYS} days.
+            {pendingDelete?.file.id === activeFileId && ' This is your active file, so the dashboard will switch to your most recent remaining upload.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirmDelete}
+            disabled={isDeleting}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isDeleting ? 'Moving to trash...' : 'Move to trash'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </>
   );
 }
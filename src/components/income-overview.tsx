@@ -2,8 +2,10 @@ import { Card } from "./ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { TrendingUp, DollarSign, Wallet } from "lucide-react";
-import { useState, useEffect } from "react";
-import { transactionApi } from "../utils/api";
+import { useState, useEffect, useRef } from "react";
+import { summaryApi } from "../utils/api";
+import type { DashboardSummary } from "../supabase/functions/server/models";
+import { TransactionList } from "./transaction-list";
 
 interface IncomeOverviewProps {
   accessToken: string;
@@ -11,95 +13,69 @@ interface IncomeOverviewProps {
 }
 
 export function IncomeOverview({ accessToken, activeFileId }: IncomeOverviewProps) {
-  const [transactions, setTransactions] = useState<any[]>([]);
-  const [allTransactions, setAllTransactions] = useState<any[]>([]);
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState<string>("all");
   const [selectedMonth, setSelectedMonth] = useState("all");
   const [availableYears, setAvailableYears] = useState<string[]>([]);
+  // File whose years last set the default, so picking "All Years" afterwards sticks
+  const defaultYearFileId = useRef<string | null>(null);
 
   useEffect(() => {
-    fetchAllTransactions();
-  }, [activeFileId]);
+    fetchSummary();
+  }, [activeFileId, selectedYear, selectedMonth]);
 
-  useEffect(() => {
-    applyFilters();
-  }, [selectedYear, selectedMonth, allTransactions]);
-
-  const fetchAllTransactions = async () => {
+  const fetchSummary = async () => {
     try {
       setIsLoading(true);
       
       // Only fetch if we have an active file
       if (!activeFileId) {
-        setAllTransactions([]);
+        setSummary(null);
         setAvailableYears([]);
-        setTransactions([]);
         setIsLoading(false);
         return;
       }
       
-      const filters: any = { type: "Income", fileId: activeFileId };
-      const { transactions } = await transactionApi.getAll(accessToken, filters);
-      const txns = transactions || [];
-      setAllTransactions(txns);
-      
-      // Extract available years from transactions
-      const years = Array.from(new Set(
-        txns.map((t: any) => new Date(t.date).getFullYear().toString())
-      )).sort((a, b) => parseInt(b) - parseInt(a));
+      const { summary } = await summaryApi.get(accessToken, {
+        fileId: activeFileId,
+        type: "Income",
+        year: selectedYear !== "all" ? selectedYear : undefined,
+        month: selectedMonth !== "all" ? selectedMonth : undefined,
+      });
+      setSummary(summary);
+
+      const years: string[] = summary?.availableYears || [];
       setAvailableYears(years);
       
-      // Set default year to the most recent
-      if (years.length > 0 && selectedYear === "all") {
-        setSelectedYear(years[0]);
+      // Set default year to the most recent when a file is first shown
+      if (defaultYearFileId.current !== activeFileId) {
+        defaultYearFileId.current = activeFileId;
+        if (years.length > 0 && selectedYear === "all") {
+          setSelectedYear(years[0]);
+        }
       }
     } catch (error: any) {
-      console.error('Failed to fetch transactions:', error);
+      console.error('Failed to fetch summary:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const applyFilters = () => {
-    let filtered = [...allTransactions];
-    
-    if (selectedYear !== "all") {
-      filtered = filtered.filter(t => 
-        new Date(t.date).getFullYear().toString() === selectedYear
-      );
-    }
-    
-    if (selectedMonth !== "all") {
-      filtered = filtered.filter(t => 
-        new Date(t.date).getMonth() === parseInt(selectedMonth)
-      );
-    }
-    
-    setTransactions(filtered);
-  };
+  const totalIncome: number = summary?.totals.income || 0;
+  const incomeCount: number = summary?.totals.incomeCount || 0;
 
-  // Calculate metrics from transactions
-  const totalIncome = transactions.reduce((sum, t) => sum + t.amount, 0);
-  
-  // Group by source
-  const sourceMap = new Map<string, number>();
-  transactions.forEach(t => {
-    const source = t.source || t.category || "Other";
-    sourceMap.set(source, (sourceMap.get(source) || 0) + t.amount);
-  });
-  
-  const incomeSources = Array.from(sourceMap.entries()).map(([name, amount]) => ({
-    name,
-    amount,
-    percentage: totalIncome > 0 ? Math.round((amount / totalIncome) * 100) : 0,
+  const incomeSources = (summary?.bySource || []).map((source) => ({
+    name: source.name,
+    amount: source.amount,
+    percentage: Math.round(source.share),
   }));
 
-  // Group by month for chart
+  // Fold the yyyy-mm series into calendar months for the chart
   const monthMap = new Map<number, number>();
-  transactions.forEach(t => {
-    const month = new Date(t.date).getMonth();
-    monthMap.set(month, (monthMap.get(month) || 0) + t.amount);
+  (summary?.monthly || []).forEach((m) => {
+    const month = parseInt(m.month.slice(5)) - 1;
+    monthMap.set(month, (monthMap.get(month) || 0) + m.income);
   });
 
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
@@ -172,7 +148,7 @@ export function IncomeOverview({ accessToken, activeFileId }: IncomeOverviewProp
               <h3 className="text-2xl text-gray-900">₹{totalIncome.toLocaleString()}</h3>
               <p className="text-xs text-green-600 mt-1 flex items-center gap-1">
                 <TrendingUp className="w-3 h-3" />
-                {transactions.length} transaction{transactions.length !== 1 ? 's' : ''}
+                {incomeCount} transaction{incomeCount !== 1 ? 's' : ''}
               </p>
             </div>
             <div className="bg-green-100 p-3 rounded-full">
@@ -267,6 +243,17 @@ export function IncomeOverview({ accessToken, activeFileId }: IncomeOverviewProp
           <p className="text-sm text-gray-500 text-center py-8">No income data available</p>
         )}
       </Card>
+
+      {/* Transactions */}
+      <TransactionList
+        accessToken={accessToken}
+        activeFileId={activeFileId}
+        title="Income Transactions"
+        type="Income"
+        selectedYear={selectedYear}
+        selectedMonth={selectedMonth}
+        onTransactionUpdated={() => fetchSummary()}
+      />
     </div>
   );
 }
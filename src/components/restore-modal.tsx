@@ -0,0 +1,181 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { ArchiveRestore, FileJson, AlertTriangle } from "lucide-react";
+import { useState } from "react";
+import { exportApi, describeApiError } from "../utils/api";
+import { EXPORT_SCHEMA_VERSION, type RestoreMode } from "../supabase/functions/server/models";
+import { toast } from "sonner@2.0.3";
+
+interface RestoreModalProps {
+  accessToken: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestoreComplete: (activeFileId: string | null) => void;
+}
+
+// What the chosen backup contains, shown before anything is sent
+interface BackupPreview {
+  fileName: string;
+  exportedAt: string | null;
+  files: number;
+  transactions: number;
+  emis: number;
+  savingsGoals: number;
+}
+
+const count = (section: unknown) => (Array.isArray(section) ? section.length : 0);
+
+export function RestoreModal({ accessToken, open, onOpenChange, onRestoreComplete }: RestoreModalProps) {
+  const [backup, setBackup] = useState<unknown>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setParseError(null);
+    setBackup(null);
+    setPreview(null);
+
+    try {
+      const data = JSON.parse(await file.text());
+
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('This is not a WealthGenie export');
+      }
+      if ((data.schemaVersion ?? 1) > EXPORT_SCHEMA_VERSION) {
+        throw new Error('This backup was made by a newer version of WealthGenie');
+      }
+
+      setBackup(data);
+      setPreview({
+        fileName: file.name,
+        exportedAt: data.exportedAt || null,
+        files: count(data.files),
+        transactions: count(data.transactions),
+        emis: count(data.emis),
+        savingsGoals: count(data.savings),
+      });
+    } catch (error: any) {
+      setParseError(error instanceof SyntaxError ? 'The file is not valid JSON' : error.message);
+    } finally {
+      // Allow choosing the same file again after an error
+      e.target.value = '';
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    try {
+      setIsRestoring(true);
+      const { counts, activeFileId } = await exportApi.restore(accessToken, backup, mode);
+      toast.success(`Restored ${counts.transactions} transactions, ${counts.emis} EMIs and ${counts.savingsGoals} savings goals`);
+      onRestoreComplete(activeFileId);
+      handleClose();
+    } catch (error: any) {
+      console.error('Restore error:', error);
+      toast.error(describeApiError(error, 'Failed to restore backup'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleClose = () => {
+    setBackup(null);
+    setPreview(null);
+    setParseError(null);
+    setMode("merge");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isRestoring && handleClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5 text-blue-600" />
+            Restore from Backup
+          </DialogTitle>
+          <DialogDescription>
+            Load a JSON file downloaded with Export Data
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label
+            htmlFor="restore-file"
+            className="block border-2 border-dashed rounded-xl p-6 text-center cursor-pointer border-gray-300 bg-gray-50 transition-all duration-200 hover:border-blue-400 hover:bg-blue-50"
+          >
+            <input
+              id="restore-file"
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChosen}
+              disabled={isRestoring}
+            />
+            <FileJson className="w-8 h-8 text-blue-600 mx-auto mb-2" />
+            <p className="text-sm text-gray-700">{preview ? preview.fileName : 'Choose a backup file'}</p>
+            {preview && (
+              <p className="text-xs text-gray-500 mt-1">
+                {preview.files} files, {preview.transactions} transactions, {preview.emis} EMIs, {preview.savingsGoals} savings goals
+                {preview.exportedAt && ` · exported ${new Date(preview.exportedAt).toLocaleDateString()}`}
+              </p>
+            )}
+          </label>
+
+          {parseError && (
+            <p className="text-sm text-red-600">{parseError}</p>
+          )}
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+              <Label htmlFor="restore-merge" className="cursor-pointer">
+                <div>
+                  <p className="text-sm text-gray-900">Merge</p>
+                  <p className="text-xs text-gray-600">Add the backup's files alongside your current data</p>
+                </div>
+              </Label>
+            </div>
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+              <Label htmlFor="restore-replace" className="cursor-pointer">
+                <div>
+                  <p className="text-sm text-gray-900">Replace</p>
+                  <p className="text-xs text-gray-600">Move your current files and records to the trash, then restore</p>
+                </div>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "replace" && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5" />
+              <p className="text-xs text-amber-800">Replaced data stays in the trash until it expires, so it can still be recovered.</p>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 pt-2">
+            <Button
+              onClick={handleRestore}
+              disabled={!backup || isRestoring}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700 text-white"
+            >
+              {isRestoring ? "Restoring..." : "Restore Backup"}
+            </Button>
+            <Button variant="outline" onClick={handleClose} disabled={isRestoring}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
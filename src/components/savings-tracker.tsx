@@ -6,21 +6,40 @@ import { Label } from "./ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
 import { TrendingUp, Target, CheckCircle2, AlertTriangle, Plus, Edit2, Trash2, PiggyBank } from "lucide-react";
 import { useState, useEffect } from "react";
-import { transactionApi, savingsApi } from "../utils/api";
+import { summaryApi, savingsApi, trashApi, describeApiError, ConflictError } from "../utils/api";
+import type { DashboardSummary, SavingsGoal } from "../supabase/functions/server/models";
 import { toast } from "sonner@2.0.3";
 
+type GoalForm = { name: string; targetAmount: string; currentAmount: string; deadline: string };
+
+function goalFormFrom(goal: SavingsGoal): GoalForm {
+  return {
+    name: goal.name,
+    targetAmount: goal.targetAmount.toString(),
+    currentAmount: goal.currentAmount.toString(),
+    deadline: goal.deadline,
+  };
+}
+
+const goalFieldLabels: Record<keyof GoalForm, string> = {
+  name: 'name',
+  targetAmount: 'target amount',
+  currentAmount: 'current amount',
+  deadline: 'target date',
+};
+
 interface SavingsTrackerProps {
   accessToken: string;
   activeFileId: string | null;
 }
 
 export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProps) {
-  const [transactions, setTransactions] = useState<any[]>([]);
-  const [savingsGoals, setSavingsGoals] = useState<any[]>([]);
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [goalModalOpen, setGoalModalOpen] = useState(false);
-  const [editingGoal, setEditingGoal] = useState<any>(null);
-  const [goalForm, setGoalForm] = useState({
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [goalForm, setGoalForm] = useState<GoalForm>({
     name: '',
     targetAmount: '',
     currentAmount: '',
@@ -37,7 +56,7 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
       
       // Only fetch data if we have an active file
       if (!activeFileId) {
-        setTransactions([]);
+        setSummary(null);
         setSavingsGoals([]);
         setIsLoading(false);
         return;
@@ -47,10 +66,9 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
       const savingsData = await savingsApi.getAll(accessToken, { fileId: activeFileId });
       setSavingsGoals(savingsData.savings || []);
       
-      // Fetch transactions filtered by file
-      const filters: any = { fileId: activeFileId };
-      const transactionsData = await transactionApi.getAll(accessToken, filters);
-      setTransactions(transactionsData.transactions || []);
+      // Income and expense totals for the file
+      const summaryData = await summaryApi.get(accessToken, { fileId: activeFileId });
+      setSummary(summaryData.summary || null);
     } catch (error: any) {
       console.error('Failed to fetch data:', error);
     } finally {
@@ -58,31 +76,18 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
     }
   };
 
-  const monthlyIncome = transactions
-    .filter(t => t.type === "Income")
-    .reduce((sum, t) => sum + t.amount, 0);
-  
-  const monthlyExpenses = transactions
-    .filter(t => t.type === "Expense")
-    .reduce((sum, t) => sum + t.amount, 0);
-  
-  const monthlySavings = monthlyIncome - monthlyExpenses;
-  const savingsRate = monthlyIncome > 0 
-    ? ((monthlySavings / monthlyIncome) * 100).toFixed(1) 
-    : "0";
+  const monthlyIncome = summary?.totals.income || 0;
+  const monthlyExpenses = summary?.totals.expense || 0;
+  const monthlySavings = summary?.totals.net || 0;
+  const savingsRate = (summary?.savingsRate || 0).toFixed(1);
 
   // Show message if no file is active
   const noDataAvailable = !activeFileId;
 
-  const handleOpenGoalModal = (goal?: any) => {
+  const handleOpenGoalModal = (goal?: SavingsGoal) => {
     if (goal) {
       setEditingGoal(goal);
-      setGoalForm({
-        name: goal.name,
-        targetAmount: goal.targetAmount.toString(),
-        currentAmount: goal.currentAmount.toString(),
-        deadline: goal.deadline,
-      });
+      setGoalForm(goalFormFrom(goal));
     } else {
       setEditingGoal(null);
       setGoalForm({
@@ -113,8 +118,7 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
           targetAmount: parseFloat(goalForm.targetAmount),
           currentAmount: parseFloat(goalForm.currentAmount || '0'),
           deadline: goalForm.deadline,
-          fileId: activeFileId,
-        });
+        }, editingGoal.version);
         toast.success('Goal updated successfully!');
       } else {
         await savingsApi.add(accessToken, {
@@ -130,19 +134,50 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
       setGoalModalOpen(false);
       fetchData();
     } catch (error: any) {
+      if (error instanceof ConflictError && editingGoal) {
+        // Changed elsewhere since the dialog opened. Saving the form again would overwrite
+        // that change, so load the stored version and let the user re-apply their edits.
+        const current: SavingsGoal = error.current;
+        const opened = goalFormFrom(editingGoal);
+        const latest = goalFormFrom(current);
+        const changed = (Object.keys(latest) as (keyof GoalForm)[])
+          .filter((field) => latest[field] !== opened[field])
+          .map((field) => goalFieldLabels[field]);
+        setEditingGoal(current);
+        setGoalForm(latest);
+        fetchData();
+        toast.error(`This goal was changed in another tab${changed.length > 0 ? ` (${changed.join(', ')})` : ''}. The form now shows the latest version — re-enter your changes and save again.`);
+        return;
+      }
       console.error('Failed to save goal:', error);
-      toast.error('Failed to save goal');
+      toast.error(describeApiError(error, 'Failed to save goal'));
     }
   };
 
-  const handleDeleteGoal = async (goalId: string) => {
-    if (!confirm('Are you sure you want to delete this goal?')) return;
+  const handleUndoDelete = async (trashId: string) => {
+    try {
+      await trashApi.restore(accessToken, trashId);
+      toast.success('Goal restored');
+      fetchData();
+    } catch (error: any) {
+      console.error('Failed to restore goal:', error);
+      toast.error(describeApiError(error, 'Failed to restore goal'));
+    }
+  };
 
+  const handleDeleteGoal = async (goal: SavingsGoal) => {
     try {
-      await savingsApi.delete(accessToken, goalId);
-      toast.success('Goal deleted successfully!');
+      const { trashId } = await savingsApi.delete(accessToken, goal.id, goal.version);
+      toast.success(`${goal.name} moved to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDelete(trashId) },
+      });
       fetchData();
     } catch (error: any) {
+      if (error instanceof ConflictError) {
+        fetchData();
+        toast.error('This goal was changed in another tab. Review the latest version and delete again if needed.');
+        return;
+      }
       console.error('Failed to delete goal:', error);
       toast.error('Failed to delete goal');
     }
@@ -305,7 +340,7 @@ export function SavingsTracker({ accessToken, activeFileId }: SavingsTrackerProp
                       <Button
                         size="sm"
                         variant="ghost"
-                        onClick={() => handleDeleteGoal(goal.id)}
+                        onClick={() => handleDeleteGoal(goal)}
                       >
                         <Trash2 className="w-4 h-4 text-red-600" />
                       </Button>
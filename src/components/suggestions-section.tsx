@@ -2,7 +2,15 @@ import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Lightbulb, TrendingDown, PiggyBank, AlertTriangle, Check, X, ArrowRight } from "lucide-react";
 import { useState, useEffect } from "react";
-import { transactionApi } from "../utils/api";
+import { summaryApi } from "../utils/api";
+import { buildInsights, type Insight, type InsightIcon } from "../utils/insights";
+
+const insightIcons: Record<InsightIcon, typeof Lightbulb> = {
+  "alert": AlertTriangle,
+  "piggy-bank": PiggyBank,
+  "trending-down": TrendingDown,
+  "lightbulb": Lightbulb,
+};
 
 interface SuggestionsSectionProps {
   accessToken: string;
@@ -10,7 +18,7 @@ interface SuggestionsSectionProps {
 }
 
 export function SuggestionsSection({ accessToken, activeFileId }: SuggestionsSectionProps) {
-  const [suggestions, setSuggestions] = useState<any[]>([]);
+  const [suggestions, setSuggestions] = useState<(Insight & { saved?: boolean })[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -27,132 +35,9 @@ export function SuggestionsSection({ accessToken, activeFileId }: SuggestionsSec
         return;
       }
 
-      // Fetch transactions for the active file
-      const { transactions } = await transactionApi.getAll(accessToken, { fileId: activeFileId });
-      
-      if (!transactions || transactions.length === 0) {
-        setSuggestions([]);
-        setIsLoading(false);
-        return;
-      }
-
-      const generatedSuggestions: any[] = [];
-      let suggestionId = 1;
-
-      // Analyze expenses by category
-      const expensesByCategory = new Map<string, number>();
-      const incomeTransactions = transactions.filter((t: any) => t.type === 'Income');
-      const expenseTransactions = transactions.filter((t: any) => t.type === 'Expense');
-      
-      expenseTransactions.forEach((t: any) => {
-        const category = t.category || 'Others';
-        expensesByCategory.set(category, (expensesByCategory.get(category) || 0) + t.amount);
-      });
-
-      const totalIncome = incomeTransactions.reduce((sum: number, t: any) => sum + t.amount, 0);
-      const totalExpenses = expenseTransactions.reduce((sum: number, t: any) => sum + t.amount, 0);
-      const savings = totalIncome - totalExpenses;
-      const savingsRate = totalIncome > 0 ? (savings / totalIncome) * 100 : 0;
-
-      // Sort categories by spending
-      const sortedCategories = Array.from(expensesByCategory.entries())
-        .sort((a, b) => b[1] - a[1]);
-
-      // Suggestion 1: High category spending
-      if (sortedCategories.length > 0) {
-        const [topCategory, topAmount] = sortedCategories[0];
-        const categoryPercentage = totalExpenses > 0 ? (topAmount / totalExpenses) * 100 : 0;
-        
-        if (categoryPercentage > 25) {
-          generatedSuggestions.push({
-            id: suggestionId++,
-            type: "warning",
-            icon: AlertTriangle,
-            title: `High ${topCategory} Expenses`,
-            description: `Your ${topCategory} expenses are ₹${topAmount.toLocaleString()}, which is ${categoryPercentage.toFixed(0)}% of your total expenses.`,
-            recommendation: `Consider reducing ${topCategory} spending by 15-20% to save approximately ₹${(topAmount * 0.15).toFixed(0).toLocaleString()}/month.`,
-            savings: Math.round(topAmount * 0.15),
-            color: "orange",
-          });
-        }
-      }
-
-      // Suggestion 2: Savings rate
-      if (savingsRate < 20 && totalIncome > 0) {
-        generatedSuggestions.push({
-          id: suggestionId++,
-          type: "opportunity",
-          icon: PiggyBank,
-          title: "Improve Your Savings Rate",
-          description: `You're currently saving ${savingsRate.toFixed(1)}% of your income (₹${savings.toLocaleString()}). Financial experts recommend saving at least 20%.`,
-          recommendation: `Try to increase your savings by ₹${((totalIncome * 0.2) - savings).toFixed(0).toLocaleString()}/month to reach the 20% target.`,
-          savings: 0,
-          color: "green",
-        });
-      } else if (savingsRate >= 20) {
-        generatedSuggestions.push({
-          id: suggestionId++,
-          type: "tip",
-          icon: PiggyBank,
-          title: "Excellent Savings!",
-          description: `You're saving ${savingsRate.toFixed(1)}% of your income, which exceeds the recommended 20%. Great job!`,
-          recommendation: `Consider investing your savings in mutual funds, fixed deposits, or other investment options for better returns.`,
-          savings: 0,
-          color: "blue",
-        });
-      }
-
-      // Suggestion 3: Multiple high spending categories
-      if (sortedCategories.length >= 2) {
-        const [cat1, amt1] = sortedCategories[0];
-        const [cat2, amt2] = sortedCategories[1];
-        const combinedAmount = amt1 + amt2;
-        const combinedPercentage = totalExpenses > 0 ? (combinedAmount / totalExpenses) * 100 : 0;
-
-        if (combinedPercentage > 50) {
-          generatedSuggestions.push({
-            id: suggestionId++,
-            type: "alert",
-            icon: TrendingDown,
-            title: "Top Two Categories Dominate Budget",
-            description: `${cat1} (₹${amt1.toLocaleString()}) and ${cat2} (₹${amt2.toLocaleString()}) account for ${combinedPercentage.toFixed(0)}% of your expenses.`,
-            recommendation: `Focus on reducing spending in these two areas. Even a 10% reduction could save you ₹${(combinedAmount * 0.1).toFixed(0).toLocaleString()}/month.`,
-            savings: Math.round(combinedAmount * 0.1),
-            color: "red",
-          });
-        }
-      }
-
-      // Suggestion 4: Income vs Expenses ratio
-      if (totalExpenses > totalIncome * 0.9) {
-        generatedSuggestions.push({
-          id: suggestionId++,
-          type: "alert",
-          icon: AlertTriangle,
-          title: "High Expense-to-Income Ratio",
-          description: `Your expenses (₹${totalExpenses.toLocaleString()}) are ${((totalExpenses / totalIncome) * 100).toFixed(0)}% of your income. This leaves little room for savings.`,
-          recommendation: `Review discretionary spending and identify areas where you can cut back by 10-15%.`,
-          savings: Math.round(totalExpenses * 0.1),
-          color: "orange",
-        });
-      }
-
-      // Suggestion 5: Budget optimization tip
-      if (sortedCategories.length >= 3) {
-        const [cat3, amt3] = sortedCategories[2];
-        generatedSuggestions.push({
-          id: suggestionId++,
-          type: "tip",
-          icon: Lightbulb,
-          title: `Optimize ${cat3} Spending`,
-          description: `You're spending ₹${amt3.toLocaleString()} on ${cat3}. Look for alternatives or deals.`,
-          recommendation: `Compare prices, use discount codes, or consider switching to more affordable options in this category.`,
-          savings: Math.round(amt3 * 0.15),
-          color: "blue",
-        });
-      }
-
-      setSuggestions(generatedSuggestions.slice(0, 4)); // Show top 4 suggestions
+      // Fetch the aggregated totals for the active file
+      const { summary } = await summaryApi.get(accessToken, { fileId: activeFileId });
+      setSuggestions(summary ? buildInsights(summary) : []);
     } catch (error: any) {
       console.error('Failed to generate suggestions:', error);
       setSuggestions([]);
@@ -248,8 +133,8 @@ export function SuggestionsSection({ accessToken, activeFileId }: SuggestionsSec
       </div>
 
       {suggestions.map((suggestion) => {
-        const colors = colorMap[suggestion.color as keyof typeof colorMap];
-        const Icon = suggestion.icon;
+        const colors = colorMap[suggestion.color];
+        const Icon = insightIcons[suggestion.icon];
 
         return (
           <Card key={suggestion.id} className={`p-6 ${colors.border} ${colors.bg}`}>
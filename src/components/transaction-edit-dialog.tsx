@@ -0,0 +1,183 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useState, useEffect } from "react";
+import { transactionApi, describeApiError, ConflictError } from "../utils/api";
+import type { Transaction, TransactionType } from "../supabase/functions/server/models";
+import { toast } from "sonner@2.0.3";
+
+interface TransactionEditDialogProps {
+  accessToken: string;
+  transaction: Transaction | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (transaction: Transaction) => void;
+}
+
+export function TransactionEditDialog({ accessToken, transaction, open, onOpenChange, onSaved }: TransactionEditDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<{
+    date: string;
+    description: string;
+    category: string;
+    amount: string;
+    type: TransactionType;
+    source: string;
+  }>({
+    date: '',
+    description: '',
+    category: '',
+    amount: '',
+    type: 'Expense',
+    source: '',
+  });
+
+  useEffect(() => {
+    if (transaction) {
+      setForm({
+        date: transaction.date || '',
+        description: transaction.description || '',
+        category: transaction.category || '',
+        amount: transaction.amount?.toString() || '',
+        type: transaction.type || 'Expense',
+        source: transaction.source || '',
+      });
+    }
+  }, [transaction]);
+
+  const handleSave = async () => {
+    if (!transaction) return;
+
+    if (!form.date || !form.description || !form.category || !form.amount) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { transaction: updated } = await transactionApi.update(accessToken, transaction.id, {
+        date: form.date,
+        description: form.description,
+        category: form.category,
+        amount: parseFloat(form.amount),
+        type: form.type,
+        source: form.source || null,
+      }, transaction.version);
+      toast.success('Transaction updated successfully!');
+      onSaved(updated);
+      onOpenChange(false);
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        // Let the list pick up the stored version; the dialog closes so the user edits fresh data
+        onSaved(error.current);
+        onOpenChange(false);
+        toast.error('This transaction was changed in another tab. The latest version has been loaded — edit it again to apply your changes.');
+        return;
+      }
+      console.error('Failed to update transaction:', error);
+      toast.error(describeApiError(error, 'Failed to update transaction'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Transaction</DialogTitle>
+          <DialogDescription>
+            Fix the category, type, date, amount or details of this transaction
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="txn-date">Date *</Label>
+              <Input
+                id="txn-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="txn-type">Type *</Label>
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as TransactionType })}>
+                <SelectTrigger id="txn-type">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Income">Income</SelectItem>
+                  <SelectItem value="Expense">Expense</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="txn-description">Description *</Label>
+            <Input
+              id="txn-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="txn-category">Category *</Label>
+              <Input
+                id="txn-category"
+                placeholder="e.g., Food, Travel, Salary"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="txn-amount">Amount (₹) *</Label>
+              <Input
+                id="txn-amount"
+                type="number"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="txn-source">Source</Label>
+            <Input
+              id="txn-source"
+              placeholder="e.g., HDFC Savings, Credit Card (optional)"
+              value={form.source}
+              onChange={(e) => setForm({ ...form, source: e.target.value })}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700"
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+            <Button
+              onClick={() => onOpenChange(false)}
+              variant="outline"
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
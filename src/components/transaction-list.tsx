@@ -0,0 +1,222 @@
+import { Card } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Edit2, Search, Trash2 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { transactionApi, trashApi, describeApiError, ConflictError, TransactionFilters } from "../utils/api";
+import type { Transaction } from "../supabase/functions/server/models";
+import { TransactionEditDialog } from "./transaction-edit-dialog";
+import { toast } from "sonner@2.0.3";
+
+const PAGE_SIZE = 25;
+
+interface TransactionListProps {
+  accessToken: string;
+  activeFileId: string | null;
+  title: string;
+  type: "Income" | "Expense";
+  selectedYear: string;
+  selectedMonth: string;
+  onTransactionUpdated: (transaction: Transaction) => void;
+}
+
+export function TransactionList({ accessToken, activeFileId, title, type, selectedYear, selectedMonth, onTransactionUpdated }: TransactionListProps) {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<NonNullable<TransactionFilters['sort']>>("-date");
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+
+  // Debounce the search box so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [activeFileId, type, selectedYear, selectedMonth, search, sort]);
+
+  const fetchPage = async (cursor?: string) => {
+    if (!activeFileId) return;
+
+    try {
+      setIsLoading(true);
+      const filters: TransactionFilters = {
+        fileId: activeFileId,
+        type,
+        sort,
+        limit: PAGE_SIZE,
+        cursor,
+      };
+      if (selectedYear !== "all") filters.year = selectedYear;
+      if (selectedMonth !== "all") filters.month = selectedMonth;
+      if (search) filters.q = search;
+
+      const { transactions: page, total, nextCursor } = await transactionApi.getAll(accessToken, filters);
+      setTransactions(prev => cursor ? [...prev, ...(page || [])] : (page || []));
+      setTotal(total || 0);
+      setNextCursor(nextCursor || null);
+    } catch (error: any) {
+      console.error('Failed to fetch transactions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (transaction: Transaction) => {
+    setEditingTransaction(transaction);
+    setEditDialogOpen(true);
+  };
+
+  const handleSaved = (transaction: Transaction) => {
+    fetchPage();
+    onTransactionUpdated(transaction);
+  };
+
+  const handleUndoDelete = async (transaction: Transaction, trashId: string) => {
+    try {
+      await trashApi.restore(accessToken, trashId);
+      toast.success('Transaction restored');
+      handleSaved(transaction);
+    } catch (error: any) {
+      console.error('Failed to restore transaction:', error);
+      toast.error(describeApiError(error, 'Failed to restore transaction'));
+    }
+  };
+
+  const handleDelete = async (transaction: Transaction) => {
+    try {
+      const { trashId } = await transactionApi.delete(accessToken, transaction.id, transaction.version);
+      toast.success(`${transaction.description} moved to trash`, {
+        action: { label: 'Undo', onClick: () => handleUndoDelete(transaction, trashId) },
+      });
+      handleSaved(transaction);
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        fetchPage();
+        toast.error('This transaction was changed in another tab. Review the latest version and delete again if needed.');
+        return;
+      }
+      console.error('Failed to delete transaction:', error);
+      toast.error(describeApiError(error, 'Failed to delete transaction'));
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+        <div>
+          <h3 className="text-lg text-gray-900">{title}</h3>
+          <p className="text-xs text-gray-600">
+            Showing {transactions.length} of {total} transaction{total !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search description, category, source"
+              className="pl-9 w-[260px]"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as NonNullable<TransactionFilters['sort']>)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="-date">Newest first</SelectItem>
+              <SelectItem value="date">Oldest first</SelectItem>
+              <SelectItem value="-amount">Highest amount</SelectItem>
+              <SelectItem value="amount">Lowest amount</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {transactions.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500 text-center py-8">No transactions match the selected filters</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="text-gray-600">
+                    {new Date(transaction.date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                  </TableCell>
+                  <TableCell className="text-gray-900">{transaction.description}</TableCell>
+                  <TableCell className="text-gray-600">{transaction.category}</TableCell>
+                  <TableCell className="text-gray-600">{transaction.source || '—'}</TableCell>
+                  <TableCell className={`text-right ${
+                    transaction.type === 'Income' ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    ₹{transaction.amount.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEdit(transaction)}
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(transaction)}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {isLoading && (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          )}
+
+          {nextCursor && !isLoading && (
+            <div className="text-center pt-4">
+              <Button size="sm" variant="outline" onClick={() => fetchPage(nextCursor)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <TransactionEditDialog
+        accessToken={accessToken}
+        transaction={editingTransaction}
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        onSaved={handleSaved}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Trash2, RotateCcw, Clock } from "lucide-react";
+import { useState, useEffect } from "react";
+import { trashApi, describeApiError } from "../utils/api";
+import { TRASH_RETENTION_DAYS, type AuditSubject, type TrashSummary } from "../supabase/functions/server/models";
+import { toast } from "sonner@2.0.3";
+
+interface TrashModalProps {
+  accessToken: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (item: TrashSummary) => void;
+}
+
+// Files first, since restoring a file brings its records back with it
+const groups: { subject: AuditSubject; title: string }[] = [
+  { subject: "file", title: "Files" },
+  { subject: "txn", title: "Transactions" },
+  { subject: "emi", title: "EMIs" },
+  { subject: "goal", title: "Savings goals" },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function TrashModal({ accessToken, open, onOpenChange, onRestored }: TrashModalProps) {
+  const [items, setItems] = useState<TrashSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<TrashSummary | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchItems();
+    }
+  }, [open]);
+
+  const fetchItems = async () => {
+    try {
+      setIsLoading(true);
+      const { items } = await trashApi.getAll(accessToken);
+      setItems(items || []);
+    } catch (error: any) {
+      console.error('Failed to fetch trash:', error);
+      toast.error('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashSummary) => {
+    try {
+      setBusyId(item.id);
+      await trashApi.restore(accessToken, item.id);
+      toast.success(`Restored ${item.label}`);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      onRestored(item);
+    } catch (error: any) {
+      console.error('Failed to restore item:', error);
+      toast.error(describeApiError(error, 'Failed to restore item'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    const item = pendingDelete;
+    try {
+      setBusyId(item.id);
+      await trashApi.delete(accessToken, item.id);
+      toast.success(`Permanently deleted ${item.label}`);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error: any) {
+      console.error('Failed to delete item:', error);
+      toast.error(describeApiError(error, 'Failed to delete item'));
+    } finally {
+      setBusyId(null);
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <>
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted items are kept for {TRASH_RETENTION_DAYS} days before they are removed permanently
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+            <p className="text-sm text-gray-600">Loading trash...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8">
+            <Trash2 className="w-12 h-12 text-gray-400 mx-auto mb-2" />
+            <p className="text-sm text-gray-600">Trash is empty</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(({ subject, title }) => {
+              const groupItems = items.filter(item => item.subject === subject);
+              if (groupItems.length === 0) return null;
+
+              return (
+                <div key={subject} className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <h4 className="text-sm text-gray-900">{title}</h4>
+                    <Badge variant="outline">{groupItems.length}</Badge>
+                  </div>
+
+                  {groupItems.map((item) => (
+                    <div key={item.id} className="p-4 border border-gray-200 rounded-lg flex items-start justify-between gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{item.label}</p>
+                        {item.counts && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            {item.counts.transactions} transactions, {item.counts.emis} EMIs, {item.counts.savingsGoals} savings goals
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          Deleted {formatDate(item.deletedAt)} · removed permanently on {formatDate(item.expiresAt)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === item.id}
+                          onClick={() => handleRestore(item)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busyId === item.id}
+                          onClick={() => setPendingDelete(item)}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+
+    <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {pendingDelete?.label} forever?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This can't be undone.
+            {pendingDelete?.subject === 'file' && ' Every transaction, EMI and savings goal deleted with this file will be removed too.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={!!busyId}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirmDelete}
+            disabled={!!busyId}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            Delete forever
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </>
+  );
+}
@@ -2,7 +2,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from "./ui/button";
 import { Upload, FileSpreadsheet, CheckCircle2, AlertCircle } from "lucide-react";
 import { useState } from "react";
-import { transactionApi, fileApi, emiApi, savingsApi } from "../utils/api";
+import { importApi } from "../utils/api";
+import { importSizeError, transactionTypeFrom } from "../utils/workbook";
+import { MAX_BULK_ITEMS, type ImportPayload, type TransactionInput, type EmiInput, type SavingsGoalInput } from "../supabase/functions/server/models";
 import { toast } from "sonner@2.0.3";
 import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
 
@@ -13,35 +15,7 @@ interface UploadModalProps {
   onUploadComplete: () => void;
 }
 
-interface ParsedTransaction {
-  date: string;
-  description: string;
-  category: string;
-  amount: number;
-  type: string;
-  source?: string;
-}
-
-interface ParsedEMI {
-  name: string;
-  amount: number;
-  dueDate: string;
-  totalAmount?: number;
-  paid?: number;
-}
-
-interface ParsedSavingsGoal {
-  name: string;
-  targetAmount: number;
-  currentAmount: number;
-  deadline: string;
-}
-
-interface ParsedData {
-  transactions: ParsedTransaction[];
-  emis: ParsedEMI[];
-  savingsGoals: ParsedSavingsGoal[];
-}
+type ParsedData = Required<Omit<ImportPayload, 'fileName'>>;
 
 export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete }: UploadModalProps) {
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
@@ -105,8 +79,8 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
     });
   };
 
-  const parseTransactionsSheet = (jsonData: any[], availableColumns: string[]): ParsedTransaction[] => {
-    const transactions: ParsedTransaction[] = [];
+  const parseTransactionsSheet = (jsonData: any[], availableColumns: string[]): TransactionInput[] => {
+    const transactions: TransactionInput[] = [];
     const missingFields: Set<string> = new Set();
     
     for (let i = 0; i < jsonData.length; i++) {
@@ -175,21 +149,12 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
         continue;
       }
       
-      // Determine transaction type
-      let transactionType: string;
-      if (typeKey && row[typeKey]) {
-        transactionType = String(row[typeKey]);
-      } else {
-        // Auto-detect based on amount (negative = expense, positive = income)
-        transactionType = amount < 0 ? 'Expense' : 'Income';
-      }
-      
       transactions.push({
         date: dateStr,
         description: String(row[descKey]),
         category: categoryKey ? String(row[categoryKey]) : 'Uncategorized',
         amount: Math.abs(amount),
-        type: transactionType,
+        type: transactionTypeFrom(typeKey && row[typeKey], amount),
         source: sourceKey ? String(row[sourceKey]) : undefined
       });
     }
@@ -197,8 +162,8 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
     return transactions;
   };
 
-  const parseEMISheet = (jsonData: any[]): ParsedEMI[] => {
-    const emis: ParsedEMI[] = [];
+  const parseEMISheet = (jsonData: any[]): EmiInput[] => {
+    const emis: EmiInput[] = [];
     
     for (const row of jsonData) {
       const nameKey = Object.keys(row).find(key => 
@@ -255,8 +220,8 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
     return emis;
   };
 
-  const parseSavingsSheet = (jsonData: any[]): ParsedSavingsGoal[] => {
-    const goals: ParsedSavingsGoal[] = [];
+  const parseSavingsSheet = (jsonData: any[]): SavingsGoalInput[] => {
+    const goals: SavingsGoalInput[] = [];
     
     for (const row of jsonData) {
       const nameKey = Object.keys(row).find(key => 
@@ -327,37 +292,19 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
         throw new Error('No valid data found in file. Please check the format.');
       }
 
-      // Save file metadata and get file ID
-      const { file: fileRecord } = await fileApi.add(accessToken, {
-        fileName: file.name,
-        transactionCount: data.transactions.length,
-      });
-
-      const fileId = fileRecord.id;
-
-      // Add transactions to backend with file ID
-      for (const transaction of data.transactions) {
-        await transactionApi.add(accessToken, {
-          ...transaction,
-          fileId,
-        });
+      const sizeError = importSizeError({ transactions: data.transactions, EMIs: data.emis, 'savings goals': data.savingsGoals });
+      if (sizeError) {
+        throw new Error(sizeError);
       }
 
-      // Add EMIs to backend with file ID
-      for (const emi of data.emis) {
-        await emiApi.add(accessToken, {
-          ...emi,
-          fileId,
-        });
-      }
-
-      // Add savings goals to backend with file ID
-      for (const goal of data.savingsGoals) {
-        await savingsApi.add(accessToken, {
-          ...goal,
-          fileId,
-        });
-      }
+      // Import file metadata, transactions, EMIs and savings goals in one atomic request.
+      // The server also marks the new file as active.
+      await importApi.create(accessToken, {
+        fileName: file.name,
+        transactions: data.transactions,
+        emis: data.emis,
+        savingsGoals: data.savingsGoals,
+      });
 
       const summary = [];
       if (data.transactions.length > 0) summary.push(`${data.transactions.length} transactions`);
@@ -366,9 +313,6 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
 
       toast.success(`Success! Imported ${summary.join(', ')} from ${file.name}`);
       
-      // Set this file as active immediately
-      await fileApi.setActive(accessToken, fileId);
-      
       // Reset state and close modal after a delay
       setTimeout(() => {
         onUploadComplete();
@@ -467,6 +411,9 @@ export function UploadModal({ accessToken, open, onOpenChange, onUploadComplete
                 <p className="text-blue-600 text-xs">
                   💡 Tip: Use separate sheets named "Transactions", "EMI", and "Savings" for best results
                 </p>
+                <p className="text-blue-600 text-xs">
+                  Up to {MAX_BULK_ITEMS.toLocaleString()} rows of each kind per file
+                </p>
               </div>
             </div>
           </div>
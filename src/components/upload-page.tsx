@@ -2,7 +2,9 @@ import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Upload, FileSpreadsheet, CheckCircle2, ArrowRight, AlertCircle } from "lucide-react";
 import { useState } from "react";
-import { transactionApi } from "../utils/api";
+import { importApi } from "../utils/api";
+import { importSizeError, transactionTypeFrom } from "../utils/workbook";
+import { MAX_BULK_ITEMS, type TransactionInput } from "../supabase/functions/server/models";
 import { toast } from "sonner@2.0.3";
 import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
 
@@ -11,22 +13,13 @@ interface UploadPageProps {
   onUploadComplete: () => void;
 }
 
-interface ParsedTransaction {
-  date: string;
-  description: string;
-  category: string;
-  amount: number;
-  type: string;
-  source?: string;
-}
-
 export function UploadPage({ accessToken, onUploadComplete }: UploadPageProps) {
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [parsedTransactions, setParsedTransactions] = useState<ParsedTransaction[]>([]);
+  const [parsedTransactions, setParsedTransactions] = useState<TransactionInput[]>([]);
   const [parseError, setParseError] = useState<string | null>(null);
 
-  const parseExcelFile = async (file: File): Promise<ParsedTransaction[]> => {
+  const parseExcelFile = async (file: File): Promise<TransactionInput[]> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       
@@ -48,7 +41,7 @@ export function UploadPage({ accessToken, onUploadComplete }: UploadPageProps) {
           }
 
           // Parse and validate transactions
-          const transactions: ParsedTransaction[] = [];
+          const transactions: TransactionInput[] = [];
           
           for (let i = 0; i < jsonData.length; i++) {
             const row: any = jsonData[i];
@@ -117,7 +110,7 @@ export function UploadPage({ accessToken, onUploadComplete }: UploadPageProps) {
               description: String(row[descKey]),
               category: categoryKey ? String(row[categoryKey]) : 'Uncategorized',
               amount: Math.abs(amount),
-              type: String(row[typeKey]),
+              type: transactionTypeFrom(row[typeKey], amount),
               source: sourceKey ? String(row[sourceKey]) : undefined
             });
           }
@@ -154,11 +147,17 @@ export function UploadPage({ accessToken, onUploadComplete }: UploadPageProps) {
       const transactions = await parseExcelFile(file);
       setParsedTransactions(transactions);
 
-      // Add transactions to backend
-      for (const transaction of transactions) {
-        await transactionApi.add(accessToken, transaction);
+      const sizeError = importSizeError({ transactions });
+      if (sizeError) {
+        throw new Error(sizeError);
       }
 
+      // Import the file and its transactions in one atomic request
+      await importApi.create(accessToken, {
+        fileName: file.name,
+        transactions,
+      });
+
       toast.success(`File uploaded! ${transactions.length} transactions imported.`);
     } catch (error: any) {
       console.error('Upload error:', error);
@@ -242,7 +241,8 @@ export function UploadPage({ accessToken, onUploadComplete }: UploadPageProps) {
                   <h4 className="text-blue-900 mb-1">Expected Format</h4>
                   <p className="text-blue-700">
                     Your Excel file should contain columns for: Date, Description, Category, 
-                    Amount, Type (Income/Expense), and optional Source.
+                    Amount, Type (Income/Expense or Credit/Debit), and optional Source.
+                    Up to {MAX_BULK_ITEMS.toLocaleString()} transactions per file.
                   </p>
                 </div>
               </div>
@@ -0,0 +1,75 @@
+// Building and querying audit log entries.
+// Entries are append-only; routes write them in the same upsert as the change they describe.
+
+import type { AuditAction, AuditEntry, AuditSubject, FieldChange } from "./models.tsx";
+
+// Name shown for a record in the activity view
+export function recordLabel(subject: AuditSubject, record: any) {
+  switch (subject) {
+    case 'txn':
+      return record.description || 'Transaction';
+    case 'file':
+      return record.fileName || 'File';
+    default:
+      return record.name || (subject === 'emi' ? 'EMI' : 'Savings goal');
+  }
+}
+
+// Field-level before/after for the given fields, skipping those that did not change
+export function diffRecords(before: any, after: any, fields: readonly string[]): FieldChange[] {
+  return fields
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+export function createAuditEntry(
+  actor: string | null,
+  action: AuditAction,
+  subject: AuditSubject,
+  details: {
+    record?: any;
+    label?: string;
+    fileId?: string | null;
+    changes?: FieldChange[];
+    counts?: Record<string, number>;
+  },
+): AuditEntry {
+  const { record, changes, counts } = details;
+  const entry: AuditEntry = {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    at: new Date().toISOString(),
+    actor,
+    action,
+    subject,
+    recordId: record?.id ?? null,
+    label: details.label ?? (record ? recordLabel(subject, record) : ''),
+    // A file's own id is the file it belongs to
+    fileId: details.fileId ?? (subject === 'file' ? record?.id : record?.fileId) ?? null,
+  };
+
+  if (changes) entry.changes = changes;
+  if (counts) entry.counts = counts;
+  if (action === 'delete' && record) entry.snapshot = record;
+
+  return entry;
+}
+
+export interface AuditQuery {
+  subject?: string;
+  action?: string;
+  recordId?: string;
+  fileId?: string;
+}
+
+// Apply the filters and order newest first
+export function filterAudit(entries: AuditEntry[], query: AuditQuery) {
+  return entries
+    .filter((entry) => {
+      if (query.subject && entry.subject !== query.subject) return false;
+      if (query.action && entry.action !== query.action) return false;
+      if (query.recordId && entry.recordId !== query.recordId) return false;
+      if (query.fileId && entry.fileId !== query.fileId) return false;
+      return true;
+    })
+    .sort((a, b) => b.at.localeCompare(a.at) || b.id.localeCompare(a.id));
+}
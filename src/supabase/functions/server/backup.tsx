@@ -0,0 +1,70 @@
+// Reading a GET /export payload back in. Every file and record gets a fresh id so a
+// backup can be restored next to existing data or into another account.
+
+import { EXPORT_SCHEMA_VERSION, buildFileRecord, type FileRecord } from "./models.tsx";
+
+const SECTIONS = ['files', 'transactions', 'emis', 'savings'] as const;
+
+// Returns an error message, or null if the payload is an export this version can read
+export function checkExportPayload(data: any): string | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return 'Backup must be a WealthGenie JSON export';
+  }
+
+  const version = data.schemaVersion ?? 1;
+  if (!Number.isInteger(version) || version < 1) {
+    return 'Backup has an invalid schemaVersion';
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    return `Backup schemaVersion ${version} is newer than this app supports (${EXPORT_SCHEMA_VERSION})`;
+  }
+
+  for (const section of SECTIONS) {
+    if (data[section] !== undefined && !Array.isArray(data[section])) {
+      return `Backup section '${section}' must be an array`;
+    }
+  }
+
+  return null;
+}
+
+const isDate = (value: any) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// New file records for every file grouping in the backup, with the record inputs
+// pointed at them. Records that referenced a file missing from the export (older
+// exports had no `files` section) are grouped under a generated file per old id.
+// Records without a file stay without one.
+export function planRestore(data: any) {
+  const sourceFiles: any[] = (data.files || []).filter((file: any) => file && file.id);
+  const newFiles = new Map<string, FileRecord>();
+
+  const fileFor = (oldId: any) => {
+    if (!oldId) return null;
+
+    let file = newFiles.get(oldId);
+    if (!file) {
+      const source = sourceFiles.find((f) => f.id === oldId);
+      file = buildFileRecord(source?.fileName || `Restored file ${newFiles.size + 1}`, 0);
+      // Keep the original upload time so the history reads in the same order
+      if (isDate(source?.uploadedAt)) file.uploadedAt = source.uploadedAt;
+      newFiles.set(oldId, file);
+    }
+    return file.id;
+  };
+
+  // Files with no records are still restored so the history matches the export
+  sourceFiles.forEach((file) => fileFor(file.id));
+
+  const regroup = (items: any[] = []) => items.map((item) => ({ ...item, fileId: fileFor(item?.fileId) }));
+
+  const transactions = regroup(data.transactions);
+  const emis = regroup(data.emis);
+  const savingsGoals = regroup(data.savings);
+
+  const files = Array.from(newFiles.values());
+  for (const file of files) {
+    file.transactionCount = transactions.filter((txn) => txn.fileId === file.id).length;
+  }
+
+  return { files, transactions, emis, savingsGoals };
+}
@@ -0,0 +1,170 @@
+// Finance assistant for POST /chat: request checks, conversation memory and the tool
+// loop. The model is reached through a provider from llm.tsx, whose keys live in the
+// function's environment, so the browser only ever talks to this server.
+
+import { LEDGER_TOOL_DEFINITIONS, runLedgerTool, type LedgerData } from "./tools.tsx";
+import type { CompletionOptions, LlmProvider, ModelMessage } from "./llm.tsx";
+import type { FinancialContext } from "./financial-context.tsx";
+import type { ChatCitation, ChatMemory, ChatMessage, FieldError } from "./models.tsx";
+
+// A provider together with the options to call it with, as chosen by resolveChatModel
+export interface ChatModel {
+  provider: LlmProvider;
+  options: CompletionOptions;
+}
+
+// Longest question accepted from the client
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// Limits on the earlier turns a client may send back with a question
+const MAX_HISTORY_MESSAGES = 100;
+const MAX_HISTORY_CONTENT_LENGTH = 20000;
+
+// Earlier turns are sent to the model, newest first, up to this many tokens.
+// Turns that don't fit are folded into a running summary.
+const HISTORY_TOKEN_BUDGET = 3000;
+
+function systemPrompt(context: FinancialContext) {
+  return `You are a personal finance assistant helping users understand their financial data. You have access to their complete financial information including income, expenses, EMIs, and savings goals.
+
+IMPORTANT RULES:
+- Only use numbers from the financial context or from tool results. Never make up numbers or transactions.
+- The context is an overview of the whole file. For anything more specific (a merchant, a month, a date range, individual transactions, the EMI schedule, goal details) call the tools instead of estimating.
+- Today is ${new Date().toISOString().split('T')[0]}. Resolve dates like "March" or "last month" against the data range in the context.
+- Always use Indian Rupee (₹) currency format.
+- Be conversational, friendly, and helpful.
+- Provide actionable advice when appropriate.
+- If the tools return nothing relevant, politely say you don't have that information.
+- Keep responses concise but informative.
+
+Financial Context:
+${JSON.stringify(context, null, 2)}`;
+}
+
+// Rough count for budgeting, about four characters per token for English text
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Check the `history` and `summary` fields of a chat request
+export function validateHistory(body: any) {
+  const errors: FieldError[] = [];
+  const history: ChatMessage[] = [];
+  const summary = typeof body?.summary === 'string' && body.summary.trim() ? body.summary.trim() : null;
+
+  if (body?.summary !== undefined && body.summary !== null && typeof body.summary !== 'string') {
+    errors.push({ field: 'summary', message: 'Must be a string or null' });
+  } else if (summary && summary.length > MAX_HISTORY_CONTENT_LENGTH) {
+    errors.push({ field: 'summary', message: `Must be at most ${MAX_HISTORY_CONTENT_LENGTH} characters` });
+  }
+
+  const input = body?.history ?? [];
+  if (!Array.isArray(input)) {
+    errors.push({ field: 'history', message: 'Must be an array' });
+  } else if (input.length > MAX_HISTORY_MESSAGES) {
+    errors.push({ field: 'history', message: `Must have at most ${MAX_HISTORY_MESSAGES} messages` });
+  } else {
+    input.forEach((message: any, index: number) => {
+      if (message?.role !== 'user' && message?.role !== 'assistant') {
+        errors.push({ field: `history[${index}].role`, message: "Must be 'user' or 'assistant'" });
+      } else if (typeof message.content !== 'string' || message.content.length > MAX_HISTORY_CONTENT_LENGTH) {
+        errors.push({ field: `history[${index}].content`, message: `Must be a string of at most ${MAX_HISTORY_CONTENT_LENGTH} characters` });
+      } else {
+        history.push({ role: message.role, content: message.content });
+      }
+    });
+  }
+
+  return { errors, history, summary };
+}
+
+const SUMMARY_PROMPT = `You summarize a conversation between a user and a personal finance assistant so it can be continued later.
+Keep the questions asked, the figures, categories, dates and periods discussed, and any advice given or preferences stated.
+Write at most 150 words of plain text. Do not add anything that was not said.`;
+
+// Keep as many recent turns as fit the budget. Older turns are summarized together
+// with the previous summary; `memory` is set when that happened. If summarizing fails
+// the older turns are left out of this request and offered again with the next one.
+export async function fitHistory(model: ChatModel, history: ChatMessage[], summary: string | null) {
+  let used = 0;
+  let keepFrom = history.length;
+
+  while (keepFrom > 0) {
+    const tokens = estimateTokens(history[keepFrom - 1].content);
+    if (used + tokens > HISTORY_TOKEN_BUDGET) break;
+    used += tokens;
+    keepFrom--;
+  }
+
+  if (keepFrom === 0) {
+    return { summary, recent: history, memory: null };
+  }
+
+  const transcript = history
+    .slice(0, keepFrom)
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  let reply: string;
+  try {
+    reply = await model.provider.complete([
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: summary ? `Summary so far:\n${summary}\n\nLater turns:\n${transcript}` : transcript },
+    ], model.options);
+  } catch (error) {
+    console.log('Chat summary error:', error);
+    return { summary, recent: history.slice(keepFrom), memory: null };
+  }
+
+  const memory: ChatMemory = { summary: reply.trim(), summarizedTurns: keepFrom };
+  return { summary: memory.summary, recent: history.slice(keepFrom), memory };
+}
+
+// Everything sent to the model for one question
+export function conversationMessages(
+  context: FinancialContext,
+  summary: string | null,
+  recent: ChatMessage[],
+  message: string,
+): ChatMessage[] {
+  return [
+    { role: 'system', content: systemPrompt(context) },
+    ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
+    ...recent,
+    { role: 'user', content: message },
+  ];
+}
+
+// Model round trips allowed per question. The last round is sent without tools,
+// so the model has to answer with what it has found by then.
+const MAX_TOOL_ROUNDS = 4;
+
+// Answer a question, letting the model query the ledger. Each round is streamed:
+// text goes to `onDelta` as it arrives; if the model asks for tools instead, they
+// run on `data` and the conversation goes back with their results. Resolves with
+// the rows the tools read. Throws with the provider's message if the model fails,
+// and with an AbortError when `signal` is aborted.
+export async function runChat(
+  model: ChatModel,
+  messages: ChatMessage[],
+  data: LedgerData,
+  onDelta: (content: string) => void | Promise<void>,
+  signal?: AbortSignal,
+) {
+  const conversation: ModelMessage[] = [...messages];
+  const citations = new Map<string, ChatCitation>();
+
+  for (let round = 1; ; round++) {
+    const tools = round < MAX_TOOL_ROUNDS ? LEDGER_TOOL_DEFINITIONS : undefined;
+    const toolCalls = await model.provider.stream(conversation, { ...model.options, tools }, onDelta, signal);
+
+    if (toolCalls.length === 0) {
+      return Array.from(citations.values());
+    }
+
+    conversation.push({ role: 'assistant', content: null, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const output = runLedgerTool(data, call.function.name, call.function.arguments);
+      output.citations.forEach((citation) => citations.set(`${citation.kind}:${citation.id}`, citation));
+      conversation.push({ role: 'tool', tool_call_id: call.id, content: output.content });
+    }
+  }
+}
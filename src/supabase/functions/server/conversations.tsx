@@ -0,0 +1,117 @@
+// Saved assistant conversations: creating them, adding turns, and the history and
+// Markdown built from them.
+
+import { formatInr } from "./financial-context.tsx";
+import type {
+  ChatCitation,
+  ChatMemory,
+  ChatMessage,
+  Conversation,
+  ConversationSummary,
+  FileRecord,
+} from "./models.tsx";
+
+// Longest title taken from a conversation's first question
+const AUTO_TITLE_LENGTH = 60;
+
+export function createConversation(fileId: string, title: string | null = null): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    fileId,
+    title,
+    messages: [],
+    memory: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// First line of the question, shortened at a word boundary
+function titleFrom(question: string) {
+  const line = question.trim().split('\n')[0];
+  if (line.length <= AUTO_TITLE_LENGTH) return line;
+  const cut = line.slice(0, AUTO_TITLE_LENGTH);
+  const space = cut.lastIndexOf(' ');
+  return `${space > 0 ? cut.slice(0, space) : cut}…`;
+}
+
+// The turns sent to the model with the next question: those not yet covered by the summary
+export function conversationHistory(conversation: Conversation) {
+  const history: ChatMessage[] = conversation.messages
+    .slice(conversation.memory?.summarizedTurns ?? 0)
+    .map(({ role, content }) => ({ role, content }));
+  return { history, summary: conversation.memory?.summary ?? null };
+}
+
+// Add a question and its answer. `memory` is what fitHistory returned for this question:
+// its `summarizedTurns` counts from where the previous summary ended.
+export function addTurn(
+  conversation: Conversation,
+  question: string,
+  reply: string,
+  citations: ChatCitation[],
+  memory: ChatMemory | null,
+): Conversation {
+  const at = new Date().toISOString();
+  return {
+    ...conversation,
+    title: conversation.title ?? titleFrom(question),
+    messages: [
+      ...conversation.messages,
+      { role: 'user', content: question, at },
+      { role: 'assistant', content: reply, ...(citations.length > 0 ? { citations } : {}), at },
+    ],
+    memory: memory
+      ? { summary: memory.summary, summarizedTurns: (conversation.memory?.summarizedTurns ?? 0) + memory.summarizedTurns }
+      : conversation.memory,
+    updatedAt: at,
+  };
+}
+
+export function summarizeConversation(conversation: Conversation): ConversationSummary {
+  const { messages, memory, ...summary } = conversation;
+  return { ...summary, messageCount: messages.length };
+}
+
+const citationKinds: Record<ChatCitation['kind'], string> = {
+  txn: 'Transaction',
+  emi: 'EMI',
+  goal: 'Savings goal',
+};
+
+// The conversation as a Markdown document, with the rows each answer was based on
+export function conversationMarkdown(conversation: Conversation, file: FileRecord | null) {
+  const lines = [
+    `# ${conversation.title ?? 'New conversation'}`,
+    '',
+    `- File: ${file?.fileName ?? conversation.fileId}`,
+    `- Started: ${conversation.createdAt}`,
+    `- Last message: ${conversation.updatedAt}`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push('', `## ${message.role === 'user' ? 'You' : 'Assistant'}`, '', message.content);
+
+    if (message.citations?.length) {
+      lines.push('', '<details><summary>Based on</summary>', '');
+      for (const citation of message.citations) {
+        lines.push(`- ${citationKinds[citation.kind]}: ${citation.label}${citation.date ? ` (${citation.date})` : ''}, ${formatInr(citation.amount)}`);
+      }
+      lines.push('', '</details>');
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// File name for the export: the title in lowercase words, or the conversation id.
+// The web client names its download with this too.
+export function conversationFileName(conversation: Pick<Conversation, 'id' | 'title'>) {
+  const slug = (conversation.title ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+  return `wealthgenie-chat-${slug || conversation.id}.md`;
+}
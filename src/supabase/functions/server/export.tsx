@@ -0,0 +1,56 @@
+// CSV output for GET /export: one CSV per entity plus a manifest, zipped.
+// Columns are the stored field names. CSV is for spreadsheets only: text cells may carry
+// a formula-guard prefix (see csvCell), so backups for POST /restore use the JSON format.
+
+import { zipSync, strToU8 } from "npm:fflate";
+import type { ExportPayload } from "./models.tsx";
+
+const COLUMNS = {
+  files: ['id', 'fileName', 'transactionCount', 'uploadedAt'],
+  transactions: ['id', 'date', 'description', 'category', 'amount', 'type', 'source', 'fileId', 'createdAt', 'updatedAt'],
+  emis: ['id', 'name', 'amount', 'dueDate', 'totalAmount', 'paid', 'status', 'fileId', 'createdAt', 'updatedAt'],
+  savings: ['id', 'name', 'targetAmount', 'currentAmount', 'deadline', 'status', 'fileId', 'createdAt', 'updatedAt'],
+};
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating imported text as a formula. The added quote
+  // stays in the text, which is why CSV exports can't be restored.
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: any[], columns: string[]) {
+  const lines = [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(',')),
+  ];
+  // CRLF line endings per RFC 4180
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function buildCsvArchive(payload: ExportPayload): Uint8Array {
+  const manifest = {
+    schemaVersion: payload.schemaVersion,
+    exportedAt: payload.exportedAt,
+    scope: payload.scope,
+    profile: payload.profile,
+    counts: {
+      files: payload.files.length,
+      transactions: payload.transactions.length,
+      emis: payload.emis.length,
+      savings: payload.savings.length,
+    },
+  };
+
+  return zipSync({
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+    'files.csv': strToU8(toCsv(payload.files, COLUMNS.files)),
+    'transactions.csv': strToU8(toCsv(payload.transactions, COLUMNS.transactions)),
+    'emis.csv': strToU8(toCsv(payload.emis, COLUMNS.emis)),
+    'savings.csv': strToU8(toCsv(payload.savings, COLUMNS.savings)),
+  });
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildFinancialContext, emiRemaining, emiStatus, goalProgress } from "./financial-context.tsx";
+import type { Emi, SavingsGoal, Transaction } from "./models.tsx";
+
+// Fixtures are full stored records, so the assertions below fail if the context
+// stops reading a field under the name it is stored with
+
+const transaction = (fields: Pick<Transaction, 'id' | 'date' | 'description' | 'category' | 'amount' | 'type'>): Transaction => ({
+  version: 1,
+  source: null,
+  fileId: 'file_1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+const transactions: Transaction[] = [
+  transaction({ id: 'txn_1', date: '2026-09-01', description: 'Salary', category: 'Salary', amount: 100000, type: 'Income' }),
+  transaction({ id: 'txn_2', date: '2026-09-05', description: 'Swiggy', category: 'Food', amount: 1500, type: 'Expense' }),
+  transaction({ id: 'txn_3', date: '2026-09-10', description: 'Rent', category: 'Housing', amount: 25000, type: 'Expense' }),
+  transaction({ id: 'txn_4', date: '2026-08-20', description: 'BigBasket', category: 'Groceries', amount: 3500, type: 'Expense' }),
+];
+
+const emi = (fields: Pick<Emi, 'id' | 'name' | 'amount' | 'dueDate' | 'totalAmount' | 'paid' | 'status'>): Emi => ({
+  version: 1,
+  fileId: 'file_1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+const carLoan = emi({ id: 'emi_1', name: 'Car loan', amount: 12000, dueDate: '2026-11-05', totalAmount: 300000, paid: 120000, status: 'upcoming' });
+const phone = emi({ id: 'emi_2', name: 'Phone', amount: 3000, dueDate: '2026-10-01', totalAmount: 0, paid: 0, status: 'upcoming' });
+const laptop = emi({ id: 'emi_3', name: 'Laptop', amount: 5000, dueDate: '2026-06-01', totalAmount: 60000, paid: 60000, status: 'paid' });
+
+const vacation: SavingsGoal = {
+  id: 'goal_1',
+  version: 1,
+  name: 'Vacation',
+  targetAmount: 100000,
+  currentAmount: 40000,
+  deadline: '2027-04-30',
+  status: 'active',
+  fileId: 'file_1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('buildFinancialContext', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('totals transaction amounts by type', () => {
+    const { summary } = buildFinancialContext(transactions, [], []);
+
+    expect(summary).toEqual({
+      totalIncome: '₹1,00,000',
+      totalExpenses: '₹30,000',
+      netSavings: '₹70,000',
+      savingsRate: '70.0%',
+      transactionCount: 4,
+    });
+  });
+
+  it('reads the date range and categories of transactions', () => {
+    const context = buildFinancialContext(transactions, [], []);
+
+    expect(context.dataRange).toEqual({ from: '2026-08-20', to: '2026-09-10' });
+    expect(context.categories).toEqual([
+      { category: 'Housing', amount: '₹25,000', percentage: '83.3%' },
+      { category: 'Groceries', amount: '₹3,500', percentage: '11.7%' },
+      { category: 'Food', amount: '₹1,500', percentage: '5.0%' },
+    ]);
+  });
+
+  it('lists recent transactions with their date, description, category and amount', () => {
+    const { recentTransactions } = buildFinancialContext(transactions, [], []);
+
+    expect(recentTransactions[0]).toEqual({ date: '2026-08-20', description: 'BigBasket', amount: '₹3,500', category: 'Groceries', type: 'Expense' });
+    expect(recentTransactions[recentTransactions.length - 1]).toEqual({ date: '2026-09-10', description: 'Rent', amount: '₹25,000', category: 'Housing', type: 'Expense' });
+  });
+
+  it('keeps only the 10 latest transactions', () => {
+    const many = Array.from({ length: 12 }, (_, i) =>
+      transaction({ id: `txn_${i}`, date: `2026-09-${String(i + 1).padStart(2, '0')}`, description: `Item ${i}`, category: 'Food', amount: 100, type: 'Expense' }));
+
+    const { recentTransactions } = buildFinancialContext(many, [], []);
+
+    expect(recentTransactions).toHaveLength(10);
+    expect(recentTransactions[0].date).toBe('2026-09-03');
+  });
+
+  it('reads EMI name, amount, due date and loan totals', () => {
+    const context = buildFinancialContext([], [carLoan, phone, laptop], []);
+
+    expect(context.emis).toEqual([
+      { name: 'Car loan', monthlyAmount: '₹12,000', dueDate: '2026-11-05', status: 'upcoming', remaining: '₹1,80,000' },
+      { name: 'Phone', monthlyAmount: '₹3,000', dueDate: '2026-10-01', status: 'overdue', remaining: null },
+    ]);
+    expect(context.totalMonthlyEmi).toBe('₹15,000');
+  });
+
+  it('reads savings goal name, target and current amount', () => {
+    const { savingsGoals } = buildFinancialContext([], [], [vacation]);
+
+    expect(savingsGoals).toEqual([{
+      name: 'Vacation',
+      progress: '40.0%',
+      current: '₹40,000',
+      target: '₹1,00,000',
+      remaining: '₹60,000',
+      deadline: '2027-04-30',
+    }]);
+  });
+
+  it('has no date range without transactions', () => {
+    expect(buildFinancialContext([], [], []).dataRange).toBeNull();
+  });
+});
+
+describe('emiStatus', () => {
+  const now = new Date('2026-10-19T12:00:00').getTime();
+
+  it('treats an unpaid EMI past its due date as overdue', () => {
+    expect(emiStatus(phone, now)).toBe('overdue');
+    expect(emiStatus(carLoan, now)).toBe('upcoming');
+    expect(emiStatus(laptop, now)).toBe('paid');
+  });
+});
+
+describe('emiRemaining', () => {
+  it('is the total less what was paid, or null when the total is unknown', () => {
+    expect(emiRemaining(carLoan)).toBe(180000);
+    expect(emiRemaining(phone)).toBeNull();
+  });
+});
+
+describe('goalProgress', () => {
+  it('works out the monthly saving needed by the deadline', () => {
+    expect(goalProgress(vacation, new Date('2026-10-19T12:00:00'))).toEqual({
+      percent: 40,
+      remaining: 60000,
+      monthsLeft: 6,
+      monthlyNeeded: 10000,
+    });
+  });
+});
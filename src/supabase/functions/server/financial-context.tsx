@@ -0,0 +1,130 @@
+// The financial context the assistant answers from, built from stored records.
+// Every AI feature reads the user's data through this module, so the mapping from the
+// stored Transaction, Emi and SavingsGoal fields lives in one place, and
+// financial-context.test.ts catches a renamed field before it reaches the model as empty values.
+// Pure, so the web client can import it as well as the edge function.
+
+import { summarizeTransactions } from "./summary.tsx";
+import type { Emi, EmiStatus, SavingsGoal, Transaction, TransactionType } from "./models.tsx";
+
+// How many categories and recent transactions the overview includes
+const TOP_CATEGORIES = 5;
+const RECENT_TRANSACTIONS = 10;
+
+export interface FinancialContext {
+  summary: {
+    totalIncome: string;
+    totalExpenses: string;
+    netSavings: string;
+    savingsRate: string;
+    transactionCount: number;
+  };
+  dataRange: { from: string; to: string } | null;
+  categories: { category: string; amount: string; percentage: string }[];
+  emis: {
+    name: string;
+    monthlyAmount: string;
+    dueDate: string;
+    status: EmiStatus;
+    remaining: string | null;      // null when the loan total is unknown
+  }[];
+  totalMonthlyEmi: string;
+  savingsGoals: {
+    name: string;
+    progress: string;
+    current: string;
+    target: string;
+    remaining: string;
+    deadline: string;
+  }[];
+  recentTransactions: {
+    date: string;
+    description: string;
+    amount: string;
+    category: string;
+    type: TransactionType;
+  }[];
+}
+
+export const formatInr = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Status as the EMI tab shows it: unpaid past the due date counts as overdue
+// whatever the stored status says
+export function emiStatus(emi: Emi, now = Date.now()): EmiStatus {
+  return emi.status !== 'paid' && new Date(emi.dueDate).getTime() < now ? 'overdue' : emi.status;
+}
+
+// Amount left on the loan, or null when the total is unknown (stored as 0)
+export function emiRemaining(emi: Emi) {
+  return emi.totalAmount > 0 ? Math.max(0, emi.totalAmount - emi.paid) : null;
+}
+
+// Progress towards a goal and the monthly saving needed to reach it by the deadline
+export function goalProgress(goal: SavingsGoal, now = new Date()) {
+  const remaining = Math.max(0, goal.targetAmount - goal.currentAmount);
+  const deadline = new Date(goal.deadline);
+  const monthsLeft = isNaN(deadline.getTime())
+    ? null
+    : Math.max(0, (deadline.getFullYear() - now.getFullYear()) * 12 + deadline.getMonth() - now.getMonth());
+
+  return {
+    percent: goal.targetAmount > 0 ? (goal.currentAmount / goal.targetAmount) * 100 : 0,
+    remaining,
+    monthsLeft,
+    monthlyNeeded: monthsLeft ? remaining / monthsLeft : remaining,
+  };
+}
+
+// Overview of one file: totals, top categories, EMIs still being paid,
+// savings goal progress and the latest transactions
+export function buildFinancialContext(transactions: Transaction[], emis: Emi[], goals: SavingsGoal[]): FinancialContext {
+  const summary = summarizeTransactions(transactions);
+  const now = Date.now();
+  const activeEmis = emis.filter((emi) => emi.status !== 'paid');
+  const byDate = transactions.slice().sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    summary: {
+      totalIncome: formatInr(summary.totals.income),
+      totalExpenses: formatInr(summary.totals.expense),
+      netSavings: formatInr(summary.totals.net),
+      savingsRate: `${summary.savingsRate.toFixed(1)}%`,
+      transactionCount: transactions.length,
+    },
+    dataRange: byDate.length > 0 ? { from: byDate[0].date, to: byDate[byDate.length - 1].date } : null,
+    categories: summary.byCategory.slice(0, TOP_CATEGORIES).map((category) => ({
+      category: category.name,
+      amount: formatInr(category.amount),
+      percentage: `${category.share.toFixed(1)}%`,
+    })),
+    emis: activeEmis.map((emi) => {
+      const remaining = emiRemaining(emi);
+      return {
+        name: emi.name,
+        monthlyAmount: formatInr(emi.amount),
+        dueDate: emi.dueDate,
+        status: emiStatus(emi, now),
+        remaining: remaining !== null ? formatInr(remaining) : null,
+      };
+    }),
+    totalMonthlyEmi: formatInr(activeEmis.reduce((sum, emi) => sum + emi.amount, 0)),
+    savingsGoals: goals.map((goal) => {
+      const progress = goalProgress(goal);
+      return {
+        name: goal.name,
+        progress: `${progress.percent.toFixed(1)}%`,
+        current: formatInr(goal.currentAmount),
+        target: formatInr(goal.targetAmount),
+        remaining: formatInr(progress.remaining),
+        deadline: goal.deadline,
+      };
+    }),
+    recentTransactions: byDate.slice(-RECENT_TRANSACTIONS).map((t) => ({
+      date: t.date,
+      description: t.description,
+      amount: formatInr(t.amount),
+      category: t.category,
+      type: t.type,
+    })),
+  };
+}
@@ -1,8 +1,71 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
+import { streamSSE } from "npm:hono/streaming";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import * as kv from "./kv_store.tsx";
+import * as store from "./store.tsx";
+import { parseTransactionQuery, filterTransactions, paginate, decodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./query.tsx";
+import { summarizeTransactions, transactionYears } from "./summary.tsx";
+import { createAuditEntry, diffRecords, filterAudit } from "./audit.tsx";
+import { createTrashItem, isExpired, summarizeTrashItem } from "./trash.tsx";
+import { checkExportPayload, planRestore } from "./backup.tsx";
+import { buildCsvArchive } from "./export.tsx";
+import { buildExportWorkbook, workbookBytes } from "./workbook.tsx";
+import { buildFinancialContext } from "./financial-context.tsx";
+import { resolveChatModel, chatDeployment } from "./llm.tsx";
+import { answerLocally, OFFLINE_REPLY } from "./intents.tsx";
+import {
+  createConversation,
+  addTurn,
+  conversationHistory,
+  summarizeConversation,
+  conversationMarkdown,
+  conversationFileName,
+} from "./conversations.tsx";
+import {
+  validateHistory,
+  fitHistory,
+  conversationMessages,
+  runChat,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from "./chat.tsx";
+import {
+  buildTransaction,
+  buildEmi,
+  buildSavingsGoal,
+  buildFileRecord,
+  validateTransactionUpdate,
+  validateEmiUpdate,
+  validateSavingsGoalUpdate,
+  validateChatSettings,
+  validateConversationUpdate,
+  versionOf,
+  EXPORT_SCHEMA_VERSION,
+  MAX_BULK_ITEMS,
+  TRANSACTION_UPDATE_FIELDS,
+  EMI_UPDATE_FIELDS,
+  SAVINGS_GOAL_UPDATE_FIELDS,
+  WORKBOOK_SECTIONS,
+  type AuditAction,
+  type AuditSubject,
+  type TrashItem,
+  type UserSettings,
+  type BuildResult,
+  type ChatCitation,
+  type ChatMemory,
+  type ChatStreamEvent,
+  type Conversation,
+  type DashboardSummary,
+  type DeletionReceipt,
+  type Emi,
+  type ExportPayload,
+  type FieldError,
+  type FileRecord,
+  type SavingsGoal,
+  type Transaction,
+  type WorkbookSection,
+} from "./models.tsx";
 
 const app = new Hono();
 
@@ -20,7 +83,7 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
+    allowHeaders: ["Content-Type", "Authorization", "If-Match"],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length"],
     maxAge: 600,
@@ -43,10 +106,76 @@ async function verifyUser(authHeader: string | undefined) {
   if (error || !user) {
     return { error: 'Invalid token or user not found', user: null };
   }
+
+  // Move any pre-existing whole-array documents to per-record keys
+  await store.migrateLegacyData(user.id);
   
   return { error: null, user };
 }
 
+// Validate a batch of items with the given builder.
+// Returns all records, or the list of failing rows (0-based index) if any row is invalid.
+function buildBatch<T>(items: any, build: (input: any) => BuildResult<T>) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'A non-empty array of items is required', rowErrors: [], records: [] as T[] };
+  }
+
+  if (items.length > MAX_BULK_ITEMS) {
+    return { error: `Too many items in one request (max ${MAX_BULK_ITEMS})`, rowErrors: [], records: [] as T[] };
+  }
+
+  const records: T[] = [];
+  const rowErrors: { row: number; error: string; fieldErrors: FieldError[] }[] = [];
+
+  items.forEach((item, index) => {
+    const { error, fieldErrors, record } = build(item);
+    if (error || !record) {
+      rowErrors.push({ row: index, error: error || 'Invalid item', fieldErrors });
+    } else {
+      records.push(record);
+    }
+  });
+
+  if (rowErrors.length > 0) {
+    return { error: `${rowErrors.length} item(s) failed validation`, rowErrors, records: [] as T[] };
+  }
+
+  return { error: null, rowErrors, records };
+}
+
+// Optimistic concurrency check for update and delete routes.
+// The `If-Match` header carries the record version the client last read, bare or quoted
+// as in an ETag. Without the header the write is unconditional. Returns the error
+// response to send (400 for a malformed header, 409 with the stored record on a
+// version mismatch), or null when the write may go ahead.
+// The KV store has no conditional write, so this narrows rather than closes the race window.
+function checkIfMatch(c: Context, record: { version?: number }, label: string) {
+  const header = c.req.header('If-Match');
+  if (!header) return null;
+
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  if (!match) {
+    return c.json({ error: 'If-Match must be a record version' }, 400);
+  }
+
+  if (parseInt(match[1]) !== versionOf(record)) {
+    return c.json({ error: `${label} was changed by another request`, current: record }, 409);
+  }
+
+  return null;
+}
+
+// Audit log entry for a change made by the signed-in user, ready to be written
+// in the same upsert as the change itself
+function audit(
+  user: { id: string; email?: string },
+  action: AuditAction,
+  subject: AuditSubject,
+  details: Parameters<typeof createAuditEntry>[3],
+) {
+  return store.auditEntries(user.id, createAuditEntry(user.email ?? null, action, subject, details));
+}
+
 // Health check endpoint
 app.get("/make-server-2ee15a73/health", (c) => {
   return c.json({ status: "ok" });
@@ -83,7 +212,7 @@ app.post("/make-server-2ee15a73/signup", async (c) => {
     }
 
     // Store user profile in KV store
-    await kv.set(`user:${data.user.id}`, {
+    await kv.set(store.keys.profile(data.user.id), {
       id: data.user.id,
       email,
       name,
@@ -109,7 +238,7 @@ app.get("/make-server-2ee15a73/user/profile", async (c) => {
       return c.json({ error: error || 'Unauthorized' }, 401);
     }
 
-    const profile = await kv.get(`user:${user.id}`);
+    const profile = await kv.get(store.keys.profile(user.id));
     
     if (!profile) {
       return c.json({ error: 'Profile not found' }, 404);
@@ -122,6 +251,74 @@ app.get("/make-server-2ee15a73/user/profile", async (c) => {
   }
 });
 
+// Delete the account and erase all of its data. The password is checked again so a
+// stolen session token alone can't wipe an account.
+app.delete("/make-server-2ee15a73/user", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const password = body?.password;
+
+    if (!password || typeof password !== 'string') {
+      return c.json({ error: 'Password is required to delete your account', fieldErrors: [{ field: 'password', message: 'Required' }] }, 400);
+    }
+
+    // Sign in with a throwaway client so the service-role client's session is untouched
+    const reauthClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { auth: { persistSession: false, autoRefreshToken: false } },
+    );
+    const { error: reauthError } = await reauthClient.auth.signInWithPassword({
+      email: user.email ?? '',
+      password,
+    });
+
+    if (reauthError) {
+      return c.json({ error: 'Password is incorrect', fieldErrors: [{ field: 'password', message: 'Incorrect password' }] }, 403);
+    }
+
+    const requestedAt = new Date().toISOString();
+
+    // Erase data before the auth user so a failure here can be retried by signing in again
+    const { counts, remaining } = await store.eraseUserData(user.id);
+
+    // The account stays until nothing is left under the user's prefixes, so a receipt is
+    // never issued for a partial erasure
+    if (remaining > 0) {
+      console.log(`Account erasure left ${remaining} keys for user ${user.id}`);
+      return c.json({ error: 'Some of your data could not be erased, so your account has not been deleted. Please try again.' }, 500);
+    }
+
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(user.id);
+
+    if (deleteError) {
+      console.log('Delete auth user error:', deleteError);
+      return c.json({ error: `Your data was erased but the account could not be removed: ${deleteError.message}` }, 500);
+    }
+
+    const receipt: DeletionReceipt = {
+      id: `erasure_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      email: user.email ?? null,
+      requestedAt,
+      completedAt: new Date().toISOString(),
+      erased: counts,
+      remainingKeys: remaining,
+    };
+
+    return c.json({ message: 'Account deleted', receipt });
+  } catch (error) {
+    console.log('Delete account error:', error);
+    return c.json({ error: `Failed to delete account: ${error.message}` }, 500);
+  }
+});
+
 // ==================== TRANSACTION ROUTES ====================
 
 // Add transaction
@@ -134,29 +331,13 @@ app.post("/make-server-2ee15a73/transactions", async (c) => {
     }
 
     const body = await c.req.json();
-    const { date, description, category, amount, type, source, fileId } = body;
+    const { error: validationError, fieldErrors, record: newTransaction } = buildTransaction(body);
 
-    if (!date || !description || !category || !amount || !type) {
-      return c.json({ error: 'Missing required fields' }, 400);
+    if (validationError) {
+      return c.json({ error: validationError, fieldErrors }, 400);
     }
 
-    // Get existing transactions
-    const existingTransactions = await kv.get(`transactions:${user.id}`) || [];
-    
-    const newTransaction = {
-      id: `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      date,
-      description,
-      category,
-      amount: parseFloat(amount),
-      type, // 'Income' or 'Expense'
-      source: source || null,
-      fileId: fileId || null,
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedTransactions = [...existingTransactions, newTransaction];
-    await kv.set(`transactions:${user.id}`, updatedTransactions);
+    await store.saveRecord('txn', user.id, newTransaction, undefined, audit(user, 'create', 'txn', { record: newTransaction }));
 
     return c.json({ 
       message: 'Transaction added successfully',
@@ -168,8 +349,8 @@ app.post("/make-server-2ee15a73/transactions", async (c) => {
   }
 });
 
-// Get all transactions with optional filters
-app.get("/make-server-2ee15a73/transactions", async (c) => {
+// Add many transactions in a single write
+app.post("/make-server-2ee15a73/transactions/bulk", async (c) => {
   try {
     const { error, user } = await verifyUser(c.req.header('Authorization'));
     
@@ -177,43 +358,137 @@ app.get("/make-server-2ee15a73/transactions", async (c) => {
       return c.json({ error: error || 'Unauthorized' }, 401);
     }
 
-    const year = c.req.query('year');
-    const month = c.req.query('month');
-    const type = c.req.query('type');
-    const fileId = c.req.query('fileId');
+    const body = await c.req.json();
+    const { error: validationError, rowErrors, records } = buildBatch(body?.transactions, buildTransaction);
 
-    let transactions = await kv.get(`transactions:${user.id}`) || [];
+    if (validationError) {
+      return c.json({ error: validationError, rowErrors }, 400);
+    }
 
-    // Apply filters
-    if (fileId) {
-      transactions = transactions.filter((t: any) => t.fileId === fileId);
+    await store.writeEntries([
+      ...records.flatMap((record) => store.recordEntries('txn', user.id, record)),
+      ...audit(user, 'create', 'txn', {
+        label: `${records.length} transactions`,
+        fileId: records[0].fileId,
+        counts: { transactions: records.length },
+      }),
+    ]);
+
+    return c.json({ 
+      message: `${records.length} transactions added successfully`,
+      transactions: records,
+    });
+  } catch (error) {
+    console.log('Bulk add transactions error:', error);
+    return c.json({ error: `Failed to add transactions: ${error.message}` }, 500);
+  }
+});
+
+// Get transactions with optional filters, search, sorting and pagination.
+// Without `limit` every matching transaction is returned in one response.
+app.get("/make-server-2ee15a73/transactions", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
     }
 
-    if (year) {
-      transactions = transactions.filter((t: any) => {
-        const txnYear = new Date(t.date).getFullYear().toString();
-        return txnYear === year;
-      });
+    const fileId = c.req.query('fileId');
+    const { errors, query } = parseTransactionQuery(
+      (name) => c.req.query(name),
+      (name) => c.req.queries(name),
+    );
+
+    const limitParam = c.req.query('limit');
+    const limit = limitParam ? parseInt(limitParam) : null;
+    if (limit !== null && (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      errors.push({ field: 'limit', message: `Must be between 1 and ${MAX_PAGE_SIZE}` });
     }
 
-    if (month) {
-      transactions = transactions.filter((t: any) => {
-        const txnMonth = new Date(t.date).getMonth();
-        return txnMonth === parseInt(month);
-      });
+    const cursor = c.req.query('cursor');
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    if (offset === null) {
+      errors.push({ field: 'cursor', message: 'Invalid cursor' });
+    }
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: errors }, 400);
     }
 
-    if (type) {
-      transactions = transactions.filter((t: any) => t.type === type);
+    // With a file and year, read only the matching month buckets through the month index
+    const candidates = fileId && query.year
+      ? await store.listTransactionsByMonth(
+          user.id,
+          fileId,
+          query.month ? `${query.year}-${String(parseInt(query.month) + 1).padStart(2, '0')}:` : `${query.year}-`,
+        )
+      : await store.listRecords('txn', user.id, fileId || undefined);
+
+    const transactions = filterTransactions(candidates, query);
+
+    if (limit === null) {
+      return c.json({ transactions, total: transactions.length, nextCursor: null });
     }
 
-    return c.json({ transactions });
+    const { items, nextCursor } = paginate(transactions, limit, offset || 0);
+
+    return c.json({ transactions: items, total: transactions.length, nextCursor });
   } catch (error) {
     console.log('Get transactions error:', error);
     return c.json({ error: `Failed to get transactions: ${error.message}` }, 500);
   }
 });
 
+// Update transaction (partial update of editable fields)
+app.put("/make-server-2ee15a73/transactions/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const transactionId = c.req.param('id');
+    const body = await c.req.json();
+    const { errors, changes } = validateTransactionUpdate(body);
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid transaction update', fieldErrors: errors }, 400);
+    }
+
+    const transaction = await store.getRecord('txn', user.id, transactionId);
+    
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    const conflict = checkIfMatch(c, transaction, 'Transaction');
+    if (conflict) return conflict;
+
+    const updatedTransaction = {
+      ...transaction,
+      ...changes,
+      version: versionOf(transaction) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Moves the month index entry when the date changes
+    await store.saveRecord('txn', user.id, updatedTransaction, transaction, audit(user, 'update', 'txn', {
+      record: updatedTransaction,
+      changes: diffRecords(transaction, updatedTransaction, TRANSACTION_UPDATE_FIELDS),
+    }));
+
+    return c.json({ 
+      message: 'Transaction updated successfully',
+      transaction: updatedTransaction,
+    });
+  } catch (error) {
+    console.log('Update transaction error:', error);
+    return c.json({ error: `Failed to update transaction: ${error.message}` }, 500);
+  }
+});
+
 // Delete transaction
 app.delete("/make-server-2ee15a73/transactions/:id", async (c) => {
   try {
@@ -224,23 +499,72 @@ app.delete("/make-server-2ee15a73/transactions/:id", async (c) => {
     }
 
     const transactionId = c.req.param('id');
-    const transactions = await kv.get(`transactions:${user.id}`) || [];
+    const transaction = await store.getRecord('txn', user.id, transactionId);
     
-    const updatedTransactions = transactions.filter((t: any) => t.id !== transactionId);
-    
-    if (transactions.length === updatedTransactions.length) {
+    if (!transaction) {
       return c.json({ error: 'Transaction not found' }, 404);
     }
 
-    await kv.set(`transactions:${user.id}`, updatedTransactions);
+    const conflict = checkIfMatch(c, transaction, 'Transaction');
+    if (conflict) return conflict;
+
+    // Soft delete: the record moves to the trash and can be restored until it expires
+    const trashItem = createTrashItem(user.id, 'txn', transaction);
+    await store.removeRecord('txn', user.id, transaction, [
+      ...store.trashEntries(user.id, trashItem),
+      ...audit(user, 'delete', 'txn', { record: transaction }),
+    ]);
 
-    return c.json({ message: 'Transaction deleted successfully' });
+    return c.json({ 
+      message: 'Transaction moved to trash',
+      trashId: trashItem.id,
+      expiresAt: trashItem.expiresAt,
+    });
   } catch (error) {
     console.log('Delete transaction error:', error);
     return c.json({ error: `Failed to delete transaction: ${error.message}` }, 500);
   }
 });
 
+// ==================== SUMMARY ROUTE ====================
+
+// Aggregated totals, monthly series and breakdowns for a file and optional date range.
+// Accepts the same `type`, `year`, `month`, `from` and `to` filters as GET /transactions.
+app.get("/make-server-2ee15a73/summary", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const fileId = c.req.query('fileId');
+    const { errors, query } = parseTransactionQuery(
+      (name) => c.req.query(name),
+      (name) => c.req.queries(name),
+    );
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: errors }, 400);
+    }
+
+    const transactions = await store.listRecords('txn', user.id, fileId || undefined);
+    const summary = summarizeTransactions(filterTransactions(transactions, query));
+
+    const response: DashboardSummary = {
+      ...summary,
+      // Years across the whole file, so year pickers aren't narrowed by the current date
+      // filter. A `type` filter still applies: the Income tab lists only years with income.
+      availableYears: transactionYears(query.type ? transactions.filter((t) => t.type === query.type) : transactions),
+    };
+
+    return c.json({ summary: response });
+  } catch (error) {
+    console.log('Get summary error:', error);
+    return c.json({ error: `Failed to get summary: ${error.message}` }, 500);
+  }
+});
+
 // ==================== EMI ROUTES ====================
 
 // Add EMI
@@ -253,28 +577,13 @@ app.post("/make-server-2ee15a73/emis", async (c) => {
     }
 
     const body = await c.req.json();
-    const { name, amount, dueDate, totalAmount, paid, fileId } = body;
+    const { error: validationError, fieldErrors, record: newEmi } = buildEmi(body);
 
-    if (!name || !amount || !dueDate) {
-      return c.json({ error: 'Missing required fields' }, 400);
+    if (validationError) {
+      return c.json({ error: validationError, fieldErrors }, 400);
     }
 
-    const existingEmis = await kv.get(`emis:${user.id}`) || [];
-    
-    const newEmi = {
-      id: `emi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name,
-      amount: parseFloat(amount),
-      dueDate,
-      totalAmount: totalAmount ? parseFloat(totalAmount) : 0,
-      paid: paid ? parseFloat(paid) : 0,
-      status: 'upcoming',
-      fileId: fileId || null,
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedEmis = [...existingEmis, newEmi];
-    await kv.set(`emis:${user.id}`, updatedEmis);
+    await store.saveRecord('emi', user.id, newEmi, undefined, audit(user, 'create', 'emi', { record: newEmi }));
 
     return c.json({ 
       message: 'EMI added successfully',
@@ -286,6 +595,41 @@ app.post("/make-server-2ee15a73/emis", async (c) => {
   }
 });
 
+// Add many EMIs in a single write
+app.post("/make-server-2ee15a73/emis/bulk", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json();
+    const { error: validationError, rowErrors, records } = buildBatch(body?.emis, buildEmi);
+
+    if (validationError) {
+      return c.json({ error: validationError, rowErrors }, 400);
+    }
+
+    await store.writeEntries([
+      ...records.flatMap((record) => store.recordEntries('emi', user.id, record)),
+      ...audit(user, 'create', 'emi', {
+        label: `${records.length} EMIs`,
+        fileId: records[0].fileId,
+        counts: { emis: records.length },
+      }),
+    ]);
+
+    return c.json({ 
+      message: `${records.length} EMIs added successfully`,
+      emis: records,
+    });
+  } catch (error) {
+    console.log('Bulk add EMIs error:', error);
+    return c.json({ error: `Failed to add EMIs: ${error.message}` }, 500);
+  }
+});
+
 // Get all EMIs with optional fileId filter
 app.get("/make-server-2ee15a73/emis", async (c) => {
   try {
@@ -296,12 +640,8 @@ app.get("/make-server-2ee15a73/emis", async (c) => {
     }
 
     const fileId = c.req.query('fileId');
-    let emis = await kv.get(`emis:${user.id}`) || [];
-
     // Filter by fileId if provided
-    if (fileId) {
-      emis = emis.filter((e: any) => e.fileId === fileId);
-    }
+    const emis = await store.listRecords('emi', user.id, fileId || undefined);
 
     return c.json({ emis });
   } catch (error) {
@@ -310,7 +650,7 @@ app.get("/make-server-2ee15a73/emis", async (c) => {
   }
 });
 
-// Update EMI (mark as paid or update details)
+// Update EMI (partial update of editable fields, e.g. marking as paid)
 app.put("/make-server-2ee15a73/emis/:id", async (c) => {
   try {
     const { error, user } = await verifyUser(c.req.header('Authorization'));
@@ -322,25 +662,38 @@ app.put("/make-server-2ee15a73/emis/:id", async (c) => {
     const emiId = c.req.param('id');
     const body = await c.req.json();
     
-    const emis = await kv.get(`emis:${user.id}`) || [];
-    const emiIndex = emis.findIndex((e: any) => e.id === emiId);
+    const emi = await store.getRecord('emi', user.id, emiId);
     
-    if (emiIndex === -1) {
+    if (!emi) {
       return c.json({ error: 'EMI not found' }, 404);
     }
 
-    // Update EMI with provided fields
-    emis[emiIndex] = {
-      ...emis[emiIndex],
-      ...body,
+    // Only documented fields are applied; id, fileId and createdAt stay as stored.
+    // Validated before the version check, like the other update routes.
+    const { errors, changes } = validateEmiUpdate(body, emi);
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid EMI update', fieldErrors: errors }, 400);
+    }
+
+    const conflict = checkIfMatch(c, emi, 'EMI');
+    if (conflict) return conflict;
+
+    const updatedEmi = {
+      ...emi,
+      ...changes,
+      version: versionOf(emi) + 1,
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`emis:${user.id}`, emis);
+    await store.saveRecord('emi', user.id, updatedEmi, emi, audit(user, 'update', 'emi', {
+      record: updatedEmi,
+      changes: diffRecords(emi, updatedEmi, EMI_UPDATE_FIELDS),
+    }));
 
     return c.json({ 
       message: 'EMI updated successfully',
-      emi: emis[emiIndex],
+      emi: updatedEmi,
     });
   } catch (error) {
     console.log('Update EMI error:', error);
@@ -358,17 +711,27 @@ app.delete("/make-server-2ee15a73/emis/:id", async (c) => {
     }
 
     const emiId = c.req.param('id');
-    const emis = await kv.get(`emis:${user.id}`) || [];
+    const emi = await store.getRecord('emi', user.id, emiId);
     
-    const updatedEmis = emis.filter((e: any) => e.id !== emiId);
-    
-    if (emis.length === updatedEmis.length) {
+    if (!emi) {
       return c.json({ error: 'EMI not found' }, 404);
     }
 
-    await kv.set(`emis:${user.id}`, updatedEmis);
+    const conflict = checkIfMatch(c, emi, 'EMI');
+    if (conflict) return conflict;
+
+    // Soft delete: the record moves to the trash and can be restored until it expires
+    const trashItem = createTrashItem(user.id, 'emi', emi);
+    await store.removeRecord('emi', user.id, emi, [
+      ...store.trashEntries(user.id, trashItem),
+      ...audit(user, 'delete', 'emi', { record: emi }),
+    ]);
 
-    return c.json({ message: 'EMI deleted successfully' });
+    return c.json({ 
+      message: 'EMI moved to trash',
+      trashId: trashItem.id,
+      expiresAt: trashItem.expiresAt,
+    });
   } catch (error) {
     console.log('Delete EMI error:', error);
     return c.json({ error: `Failed to delete EMI: ${error.message}` }, 500);
@@ -387,27 +750,13 @@ app.post("/make-server-2ee15a73/savings", async (c) => {
     }
 
     const body = await c.req.json();
-    const { name, targetAmount, currentAmount, deadline, status, fileId } = body;
+    const { error: validationError, fieldErrors, record: newGoal } = buildSavingsGoal(body);
 
-    if (!name || !targetAmount || !deadline) {
-      return c.json({ error: 'Missing required fields' }, 400);
+    if (validationError) {
+      return c.json({ error: validationError, fieldErrors }, 400);
     }
 
-    const existingSavings = await kv.get(`savings:${user.id}`) || [];
-    
-    const newGoal = {
-      id: `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name,
-      targetAmount: parseFloat(targetAmount),
-      currentAmount: currentAmount ? parseFloat(currentAmount) : 0,
-      deadline,
-      status: status || 'on-track',
-      fileId: fileId || null,
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedSavings = [...existingSavings, newGoal];
-    await kv.set(`savings:${user.id}`, updatedSavings);
+    await store.saveRecord('goal', user.id, newGoal, undefined, audit(user, 'create', 'goal', { record: newGoal }));
 
     return c.json({ 
       message: 'Savings goal added successfully',
@@ -419,6 +768,41 @@ app.post("/make-server-2ee15a73/savings", async (c) => {
   }
 });
 
+// Add many savings goals in a single write
+app.post("/make-server-2ee15a73/savings/bulk", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json();
+    const { error: validationError, rowErrors, records } = buildBatch(body?.goals, buildSavingsGoal);
+
+    if (validationError) {
+      return c.json({ error: validationError, rowErrors }, 400);
+    }
+
+    await store.writeEntries([
+      ...records.flatMap((record) => store.recordEntries('goal', user.id, record)),
+      ...audit(user, 'create', 'goal', {
+        label: `${records.length} savings goals`,
+        fileId: records[0].fileId,
+        counts: { savingsGoals: records.length },
+      }),
+    ]);
+
+    return c.json({ 
+      message: `${records.length} savings goals added successfully`,
+      goals: records,
+    });
+  } catch (error) {
+    console.log('Bulk add savings goals error:', error);
+    return c.json({ error: `Failed to add savings goals: ${error.message}` }, 500);
+  }
+});
+
 // Get all savings goals with optional fileId filter
 app.get("/make-server-2ee15a73/savings", async (c) => {
   try {
@@ -429,12 +813,8 @@ app.get("/make-server-2ee15a73/savings", async (c) => {
     }
 
     const fileId = c.req.query('fileId');
-    let savings = await kv.get(`savings:${user.id}`) || [];
-
     // Filter by fileId if provided
-    if (fileId) {
-      savings = savings.filter((g: any) => g.fileId === fileId);
-    }
+    const savings = await store.listRecords('goal', user.id, fileId || undefined);
 
     return c.json({ savings });
   } catch (error) {
@@ -443,7 +823,7 @@ app.get("/make-server-2ee15a73/savings", async (c) => {
   }
 });
 
-// Update savings goal
+// Update savings goal (partial update of editable fields)
 app.put("/make-server-2ee15a73/savings/:id", async (c) => {
   try {
     const { error, user } = await verifyUser(c.req.header('Authorization'));
@@ -454,25 +834,36 @@ app.put("/make-server-2ee15a73/savings/:id", async (c) => {
 
     const goalId = c.req.param('id');
     const body = await c.req.json();
+    const { errors, changes } = validateSavingsGoalUpdate(body);
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid savings goal update', fieldErrors: errors }, 400);
+    }
     
-    const savings = await kv.get(`savings:${user.id}`) || [];
-    const goalIndex = savings.findIndex((g: any) => g.id === goalId);
+    const goal = await store.getRecord('goal', user.id, goalId);
     
-    if (goalIndex === -1) {
+    if (!goal) {
       return c.json({ error: 'Savings goal not found' }, 404);
     }
 
-    savings[goalIndex] = {
-      ...savings[goalIndex],
-      ...body,
+    const conflict = checkIfMatch(c, goal, 'Savings goal');
+    if (conflict) return conflict;
+
+    const updatedGoal = {
+      ...goal,
+      ...changes,
+      version: versionOf(goal) + 1,
       updatedAt: new Date().toISOString(),
     };
 
-    await kv.set(`savings:${user.id}`, savings);
+    await store.saveRecord('goal', user.id, updatedGoal, goal, audit(user, 'update', 'goal', {
+      record: updatedGoal,
+      changes: diffRecords(goal, updatedGoal, SAVINGS_GOAL_UPDATE_FIELDS),
+    }));
 
     return c.json({ 
       message: 'Savings goal updated successfully',
-      goal: savings[goalIndex],
+      goal: updatedGoal,
     });
   } catch (error) {
     console.log('Update savings goal error:', error);
@@ -490,17 +881,27 @@ app.delete("/make-server-2ee15a73/savings/:id", async (c) => {
     }
 
     const goalId = c.req.param('id');
-    const savings = await kv.get(`savings:${user.id}`) || [];
+    const goal = await store.getRecord('goal', user.id, goalId);
     
-    const updatedSavings = savings.filter((g: any) => g.id !== goalId);
-    
-    if (savings.length === updatedSavings.length) {
+    if (!goal) {
       return c.json({ error: 'Savings goal not found' }, 404);
     }
 
-    await kv.set(`savings:${user.id}`, updatedSavings);
+    const conflict = checkIfMatch(c, goal, 'Savings goal');
+    if (conflict) return conflict;
+
+    // Soft delete: the record moves to the trash and can be restored until it expires
+    const trashItem = createTrashItem(user.id, 'goal', goal);
+    await store.removeRecord('goal', user.id, goal, [
+      ...store.trashEntries(user.id, trashItem),
+      ...audit(user, 'delete', 'goal', { record: goal }),
+    ]);
 
-    return c.json({ message: 'Savings goal deleted successfully' });
+    return c.json({ 
+      message: 'Savings goal moved to trash',
+      trashId: trashItem.id,
+      expiresAt: trashItem.expiresAt,
+    });
   } catch (error) {
     console.log('Delete savings goal error:', error);
     return c.json({ error: `Failed to delete savings goal: ${error.message}` }, 500);
@@ -525,20 +926,14 @@ app.post("/make-server-2ee15a73/files", async (c) => {
       return c.json({ error: 'Missing required fields' }, 400);
     }
 
-    const existingFiles = await kv.get(`files:${user.id}`) || [];
-    
-    const newFile = {
-      id: `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      fileName,
-      transactionCount,
-      uploadedAt: new Date().toISOString(),
-    };
-
-    const updatedFiles = [...existingFiles, newFile];
-    await kv.set(`files:${user.id}`, updatedFiles);
+    const newFile = buildFileRecord(fileName, transactionCount);
 
-    // Set as active file
-    await kv.set(`activeFile:${user.id}`, newFile.id);
+    // Save the file and set it as active in one write
+    await store.writeEntries([
+      ...store.fileEntries(user.id, newFile),
+      [store.keys.activeFile(user.id), newFile.id],
+      ...audit(user, 'create', 'file', { record: newFile }),
+    ]);
 
     return c.json({ 
       message: 'File metadata saved successfully',
@@ -559,8 +954,8 @@ app.get("/make-server-2ee15a73/files", async (c) => {
       return c.json({ error: error || 'Unauthorized' }, 401);
     }
 
-    const files = await kv.get(`files:${user.id}`) || [];
-    const activeFileId = await kv.get(`activeFile:${user.id}`) || null;
+    const files = await store.listFiles(user.id);
+    const activeFileId = await kv.get(store.keys.activeFile(user.id)) || null;
 
     return c.json({ files, activeFileId });
   } catch (error) {
@@ -585,7 +980,7 @@ app.post("/make-server-2ee15a73/files/active", async (c) => {
       return c.json({ error: 'File ID is required' }, 400);
     }
 
-    await kv.set(`activeFile:${user.id}`, fileId);
+    await kv.set(store.keys.activeFile(user.id), fileId);
 
     return c.json({ message: 'Active file set successfully', fileId });
   } catch (error) {
@@ -594,10 +989,40 @@ app.post("/make-server-2ee15a73/files/active", async (c) => {
   }
 });
 
-// ==================== EXPORT ROUTE ====================
+// Get a single file with the number of records that belong to it
+app.get("/make-server-2ee15a73/files/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
 
-// Export all user data
-app.get("/make-server-2ee15a73/export", async (c) => {
+    const fileId = c.req.param('id');
+    const file = await store.getFile(user.id, fileId);
+
+    if (!file) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    const { transactions, emis, goals } = await store.listFileContents(user.id, fileId);
+
+    return c.json({
+      file,
+      counts: {
+        transactions: transactions.length,
+        emis: emis.length,
+        savingsGoals: goals.length,
+      },
+    });
+  } catch (error) {
+    console.log('Get file error:', error);
+    return c.json({ error: `Failed to get file: ${error.message}` }, 500);
+  }
+});
+
+// Delete a file together with its transactions, EMIs and savings goals (soft delete)
+app.delete("/make-server-2ee15a73/files/:id", async (c) => {
   try {
     const { error, user } = await verifyUser(c.req.header('Authorization'));
     
@@ -605,23 +1030,1006 @@ app.get("/make-server-2ee15a73/export", async (c) => {
       return c.json({ error: error || 'Unauthorized' }, 401);
     }
 
-    const profile = await kv.get(`user:${user.id}`);
-    const transactions = await kv.get(`transactions:${user.id}`) || [];
-    const emis = await kv.get(`emis:${user.id}`) || [];
-    const savings = await kv.get(`savings:${user.id}`) || [];
+    const fileId = c.req.param('id');
+    const file = await store.getFile(user.id, fileId);
 
-    const exportData = {
-      profile,
-      transactions,
-      emis,
-      savings,
-      exportedAt: new Date().toISOString(),
-    };
+    if (!file) {
+      return c.json({ error: 'File not found' }, 404);
+    }
 
-    return c.json(exportData);
+    const conflict = checkIfMatch(c, file, 'File');
+    if (conflict) return conflict;
+
+    const { transactions, emis, goals } = await store.listFileContents(user.id, fileId);
+
+    // The file and everything imported with it move to the trash as one item.
+    // Its audit history stays in place.
+    const trashItem = createTrashItem(user.id, 'file', file, { transactions, emis, goals });
+    await store.writeEntries([
+      ...store.trashEntries(user.id, trashItem),
+      ...audit(user, 'delete', 'file', {
+        record: file,
+        counts: { transactions: transactions.length, emis: emis.length, savingsGoals: goals.length },
+      }),
+    ]);
+
+    await store.deleteKeys([
+      store.keys.file(user.id, fileId),
+      ...transactions.flatMap((txn: any) => store.recordKeys('txn', user.id, txn)),
+      ...emis.flatMap((emi: any) => store.recordKeys('emi', user.id, emi)),
+      ...goals.flatMap((goal: any) => store.recordKeys('goal', user.id, goal)),
+    ]);
+
+    // If the deleted file was active, fall back to the most recently uploaded remaining file
+    let activeFileId = await kv.get(store.keys.activeFile(user.id)) || null;
+    if (activeFileId === fileId) {
+      const remainingFiles = (await store.listFiles(user.id))
+        .sort((a: FileRecord, b: FileRecord) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+      activeFileId = remainingFiles[0]?.id || null;
+
+      if (activeFileId) {
+        await kv.set(store.keys.activeFile(user.id), activeFileId);
+      } else {
+        await kv.del(store.keys.activeFile(user.id));
+      }
+    }
+
+    return c.json({
+      message: 'File moved to trash',
+      trashId: trashItem.id,
+      expiresAt: trashItem.expiresAt,
+      counts: {
+        transactions: transactions.length,
+        emis: emis.length,
+        savingsGoals: goals.length,
+      },
+      activeFileId,
+    });
   } catch (error) {
-    console.log('Export data error:', error);
-    return c.json({ error: `Failed to export data: ${error.message}` }, 500);
+    console.log('Delete file error:', error);
+    return c.json({ error: `Failed to delete file: ${error.message}` }, 500);
+  }
+});
+
+// ==================== IMPORT ROUTE ====================
+
+// Import a parsed statement (file metadata, transactions, EMIs and savings goals) atomically.
+// Everything is validated up front and committed with a single upsert, so a failure leaves no partial data.
+app.post("/make-server-2ee15a73/imports", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json();
+    const { fileName } = body;
+    const transactions = body.transactions || [];
+    const emis = body.emis || [];
+    const savingsGoals = body.savingsGoals || [];
+
+    if (!fileName) {
+      return c.json({ error: 'File name is required' }, 400);
+    }
+
+    if (transactions.length === 0 && emis.length === 0 && savingsGoals.length === 0) {
+      return c.json({ error: 'No transactions, EMIs or savings goals to import' }, 400);
+    }
+
+    const newFile = buildFileRecord(fileName, transactions.length);
+
+    // Validate every section before anything is written
+    const sections: { name: string; items: any[]; build: (input: any) => BuildResult<Transaction | Emi | SavingsGoal> }[] = [
+      { name: 'transactions', items: transactions, build: buildTransaction },
+      { name: 'emis', items: emis, build: buildEmi },
+      { name: 'savingsGoals', items: savingsGoals, build: buildSavingsGoal },
+    ];
+
+    const built: Record<string, (Transaction | Emi | SavingsGoal)[]> = {};
+    for (const section of sections) {
+      if (section.items.length === 0) {
+        built[section.name] = [];
+        continue;
+      }
+
+      const { error: validationError, rowErrors, records } = buildBatch(
+        section.items.map((item: any) => ({ ...item, fileId: newFile.id })),
+        section.build,
+      );
+
+      if (validationError) {
+        return c.json({ error: `Invalid ${section.name}: ${validationError}`, section: section.name, rowErrors }, 400);
+      }
+
+      built[section.name] = records;
+    }
+
+    // Single upsert: either every key is written or none is
+    await store.writeEntries([
+      ...store.fileEntries(user.id, newFile),
+      ...built.transactions.flatMap((record) => store.recordEntries('txn', user.id, record)),
+      ...built.emis.flatMap((record) => store.recordEntries('emi', user.id, record)),
+      ...built.savingsGoals.flatMap((record) => store.recordEntries('goal', user.id, record)),
+      [store.keys.activeFile(user.id), newFile.id],
+      ...audit(user, 'import', 'file', {
+        record: newFile,
+        counts: {
+          transactions: built.transactions.length,
+          emis: built.emis.length,
+          savingsGoals: built.savingsGoals.length,
+        },
+      }),
+    ]);
+
+    return c.json({ 
+      message: 'Import completed successfully',
+      file: newFile,
+      counts: {
+        transactions: built.transactions.length,
+        emis: built.emis.length,
+        savingsGoals: built.savingsGoals.length,
+      },
+    });
+  } catch (error) {
+    console.log('Import error:', error);
+    return c.json({ error: `Failed to import data: ${error.message}` }, 500);
+  }
+});
+
+// ==================== TRASH ROUTES ====================
+
+// Keys to remove when trash items are deleted for good. A deleted file's saved
+// conversations wait in place while it can be restored and go with it.
+async function purgeKeys(items: TrashItem[]) {
+  const keyLists = await Promise.all(items.map(async (item) => [
+    store.keys.trash(item.userId, item.id),
+    // A file that is live again (its delete never finished) keeps its conversations
+    ...(item.subject === 'file' && !(await store.getFile(item.userId, item.recordId))
+      ? (await store.listConversations(item.userId, item.recordId))
+        .flatMap((conversation) => store.conversationKeys(item.userId, conversation))
+      : []),
+  ]));
+  return keyLists.flat();
+}
+
+// Permanently remove a user's trash items that are past retention
+async function purgeExpiredTrash(userId: string) {
+  const expired = (await store.listTrash(userId)).filter((item) => isExpired(item));
+  await store.deleteKeys(await purgeKeys(expired));
+  return expired.length;
+}
+
+// List deleted items, newest first. Expired items are purged first.
+app.get("/make-server-2ee15a73/trash", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    await purgeExpiredTrash(user.id);
+
+    const subject = c.req.query('subject');
+    const items = (await store.listTrash(user.id))
+      .filter((item) => !subject || item.subject === subject)
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      .map(summarizeTrashItem);
+
+    return c.json({ items });
+  } catch (error) {
+    console.log('Get trash error:', error);
+    return c.json({ error: `Failed to get trash: ${error.message}` }, 500);
+  }
+});
+
+// Restore a deleted item. A file comes back with everything deleted along with it.
+app.post("/make-server-2ee15a73/trash/:id/restore", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const trashId = c.req.param('id');
+    const item = await store.getTrashItem(user.id, trashId);
+
+    if (!item || isExpired(item)) {
+      return c.json({ error: 'Item not found in trash' }, 404);
+    }
+
+    // Deleting writes the trash item and removes the live keys in two calls, so a delete
+    // that failed in between leaves the records both live and in the trash. Records that
+    // are still live are kept as they are: restoring never overwrites a newer version and
+    // is safe to repeat.
+    const entries: store.Entry[] = [];
+
+    if (item.subject === 'file') {
+      const file = item.record as FileRecord;
+      const { transactions, emis, goals } = item.contents || { transactions: [], emis: [], goals: [] };
+      const liveFile = await store.getFile(user.id, file.id);
+      const live = liveFile ? await store.listFileContents(user.id, file.id) : { transactions: [], emis: [], goals: [] };
+      const liveIds = new Set([...live.transactions, ...live.emis, ...live.goals].map((record) => record.id));
+      const missing = <T extends { id: string }>(records: T[]) => records.filter((record) => !liveIds.has(record.id));
+
+      entries.push(
+        ...(liveFile ? [] : store.fileEntries(user.id, file)),
+        ...missing(transactions).flatMap((record) => store.recordEntries('txn', user.id, record)),
+        ...missing(emis).flatMap((record) => store.recordEntries('emi', user.id, record)),
+        ...missing(goals).flatMap((record) => store.recordEntries('goal', user.id, record)),
+      );
+
+      // Make it the active file if the user currently has none
+      if (!(await kv.get(store.keys.activeFile(user.id)))) {
+        entries.push([store.keys.activeFile(user.id), file.id]);
+      }
+    } else {
+      // A record can't go back into a file that is itself deleted
+      if (item.fileId && !(await store.getFile(user.id, item.fileId))) {
+        return c.json({ error: 'The file this item belongs to has been deleted. Restore the file first.' }, 409);
+      }
+
+      if (!(await store.getRecord(item.subject, user.id, item.recordId))) {
+        entries.push(...store.recordEntries(item.subject, user.id, item.record));
+      }
+    }
+
+    entries.push(...audit(user, 'restore', item.subject, {
+      record: item.record,
+      counts: summarizeTrashItem(item).counts,
+    }));
+
+    await store.writeEntries(entries);
+    await store.deleteKeys([store.keys.trash(user.id, trashId)]);
+
+    return c.json({ 
+      message: `${item.label} restored successfully`,
+      restored: summarizeTrashItem(item),
+    });
+  } catch (error) {
+    console.log('Restore from trash error:', error);
+    return c.json({ error: `Failed to restore item: ${error.message}` }, 500);
+  }
+});
+
+// Permanently delete one item from the trash
+app.delete("/make-server-2ee15a73/trash/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const trashId = c.req.param('id');
+    const item = await store.getTrashItem(user.id, trashId);
+
+    if (!item) {
+      return c.json({ error: 'Item not found in trash' }, 404);
+    }
+
+    await store.deleteKeys(await purgeKeys([item]));
+
+    return c.json({ message: 'Item permanently deleted' });
+  } catch (error) {
+    console.log('Delete from trash error:', error);
+    return c.json({ error: `Failed to delete item: ${error.message}` }, 500);
+  }
+});
+
+// Purge trash items past retention.
+// Called with a user's token it purges that user's trash. A scheduled job can call it
+// with the service role key to purge every user's expired items.
+app.post("/make-server-2ee15a73/trash/purge", async (c) => {
+  try {
+    const authHeader = c.req.header('Authorization');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`) {
+      const expired = (await store.getByPrefix('trash:'))
+        .filter((item: TrashItem) => isExpired(item));
+      await store.deleteKeys(await purgeKeys(expired));
+      return c.json({ message: 'Expired trash purged', purged: expired.length });
+    }
+
+    const { error, user } = await verifyUser(authHeader);
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const purged = await purgeExpiredTrash(user.id);
+
+    return c.json({ message: 'Expired trash purged', purged });
+  } catch (error) {
+    console.log('Purge trash error:', error);
+    return c.json({ error: `Failed to purge trash: ${error.message}` }, 500);
+  }
+});
+
+// ==================== AUDIT ROUTE ====================
+
+// Audit log, newest first. Filter with `subject` (txn, emi, goal, file), `action`,
+// `recordId` or `fileId`; page with `limit` and the returned `nextCursor`.
+app.get("/make-server-2ee15a73/audit", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const limitParam = c.req.query('limit');
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_PAGE_SIZE;
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: [{ field: 'limit', message: `Must be between 1 and ${MAX_PAGE_SIZE}` }] }, 400);
+    }
+
+    const cursor = c.req.query('cursor');
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    if (offset === null) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: [{ field: 'cursor', message: 'Unrecognized cursor' }] }, 400);
+    }
+
+    const entries = filterAudit(await store.listAudit(user.id), {
+      subject: c.req.query('subject') || undefined,
+      action: c.req.query('action') || undefined,
+      recordId: c.req.query('recordId') || undefined,
+      fileId: c.req.query('fileId') || undefined,
+    });
+    const page = paginate(entries, limit, offset);
+
+    return c.json({ entries: page.items, total: entries.length, nextCursor: page.nextCursor });
+  } catch (error) {
+    console.log('Get audit log error:', error);
+    return c.json({ error: `Failed to get audit log: ${error.message}` }, 500);
+  }
+});
+
+// ==================== BACKUP ROUTES ====================
+
+// Export user data. The JSON payload can be read back with POST /restore.
+// `fileId` picks one file (default: the active file, or every file if none is active;
+// `all` for every file). `from`/`to` limit transactions to a date range.
+// `format` is `json` (default), `csv` (a zip with one CSV per entity) or `xlsx` (a
+// workbook; `sections` is a comma-separated list of WORKBOOK_SECTIONS, default all).
+// Only the JSON payload can be restored.
+app.get("/make-server-2ee15a73/export", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const format = c.req.query('format') || 'json';
+    if (format !== 'json' && format !== 'csv' && format !== 'xlsx') {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: [{ field: 'format', message: "Must be 'json', 'csv' or 'xlsx'" }] }, 400);
+    }
+
+    const sectionsParam = c.req.query('sections');
+    const sections = sectionsParam ? sectionsParam.split(',').map((section) => section.trim()) : [...WORKBOOK_SECTIONS];
+    if (sections.length === 0 || sections.some((section) => !WORKBOOK_SECTIONS.includes(section as WorkbookSection))) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: [{ field: 'sections', message: `Must be a comma-separated list of ${WORKBOOK_SECTIONS.join(', ')}` }] }, 400);
+    }
+
+    const { errors, query } = parseTransactionQuery(
+      (name) => c.req.query(name),
+      (name) => c.req.queries(name),
+    );
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid query parameters', fieldErrors: errors }, 400);
+    }
+
+    const fileParam = c.req.query('fileId');
+    const fileId: string | null = fileParam === 'all'
+      ? null
+      : fileParam || await kv.get(store.keys.activeFile(user.id)) || null;
+
+    let files: FileRecord[];
+    if (fileId) {
+      const file = await store.getFile(user.id, fileId);
+      if (!file) {
+        return c.json({ error: 'File not found' }, 404);
+      }
+      files = [file];
+    } else {
+      files = await store.listFiles(user.id);
+    }
+
+    const [profile, transactions, emis, savings] = await Promise.all([
+      kv.get(store.keys.profile(user.id)),
+      store.listRecords('txn', user.id, fileId ?? undefined),
+      store.listRecords('emi', user.id, fileId ?? undefined),
+      store.listRecords('goal', user.id, fileId ?? undefined),
+    ]);
+
+    const exportData: ExportPayload = {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      scope: { fileId, from: query.from ?? null, to: query.to ?? null },
+      profile: profile || null,
+      files,
+      transactions: filterTransactions(transactions, { from: query.from, to: query.to, sort: 'date' }),
+      emis,
+      savings,
+    };
+
+    const date = exportData.exportedAt.split('T')[0];
+
+    if (format === 'csv') {
+      const archive = buildCsvArchive(exportData);
+      return c.body(archive, 200, {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="wealthgenie-export-${date}.zip"`,
+      });
+    }
+
+    if (format === 'xlsx') {
+      const workbook = buildExportWorkbook(exportData, summarizeTransactions(exportData.transactions), sections as WorkbookSection[]);
+      return c.body(workbookBytes(workbook), 200, {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="wealthgenie-export-${date}.xlsx"`,
+      });
+    }
+
+    return c.json(exportData);
+  } catch (error) {
+    console.log('Export data error:', error);
+    return c.json({ error: `Failed to export data: ${error.message}` }, 500);
+  }
+});
+
+// Restore a previous export. Body: { mode: 'merge' | 'replace', data: <export payload> }.
+// Files and records get fresh ids; with `replace`, existing data moves to the trash first.
+app.post("/make-server-2ee15a73/restore", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const { mode, data } = await c.req.json();
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      return c.json({ error: 'Invalid restore request', fieldErrors: [{ field: 'mode', message: "Must be 'merge' or 'replace'" }] }, 400);
+    }
+
+    const payloadError = checkExportPayload(data);
+    if (payloadError) {
+      return c.json({ error: payloadError }, 400);
+    }
+
+    const plan = planRestore(data);
+
+    if (plan.transactions.length === 0 && plan.emis.length === 0 && plan.savingsGoals.length === 0) {
+      return c.json({ error: 'The backup has no transactions, EMIs or savings goals to restore' }, 400);
+    }
+
+    // Validate every section before anything is written
+    const sections: { name: string; items: any[]; build: (input: any) => BuildResult<Transaction | Emi | SavingsGoal> }[] = [
+      { name: 'transactions', items: plan.transactions, build: buildTransaction },
+      { name: 'emis', items: plan.emis, build: buildEmi },
+      { name: 'savingsGoals', items: plan.savingsGoals, build: buildSavingsGoal },
+    ];
+
+    const built: Record<string, (Transaction | Emi | SavingsGoal)[]> = {};
+    for (const section of sections) {
+      if (section.items.length === 0) {
+        built[section.name] = [];
+        continue;
+      }
+
+      const { error: validationError, rowErrors, records } = buildBatch(section.items, section.build);
+
+      if (validationError) {
+        return c.json({ error: `Invalid ${section.name}: ${validationError}`, section: section.name, rowErrors }, 400);
+      }
+
+      built[section.name] = records;
+    }
+
+    const entries: store.Entry[] = [
+      ...plan.files.flatMap((file) => store.fileEntries(user.id, file)),
+      ...built.transactions.flatMap((record) => store.recordEntries('txn', user.id, record)),
+      ...built.emis.flatMap((record) => store.recordEntries('emi', user.id, record)),
+      ...built.savingsGoals.flatMap((record) => store.recordEntries('goal', user.id, record)),
+      ...plan.files.flatMap((file) => audit(user, 'import', 'file', {
+        record: file,
+        counts: {
+          transactions: built.transactions.filter((record) => record.fileId === file.id).length,
+          emis: built.emis.filter((record) => record.fileId === file.id).length,
+          savingsGoals: built.savingsGoals.filter((record) => record.fileId === file.id).length,
+        },
+      })),
+    ];
+    const staleKeys: string[] = [];
+    const replaced = { files: 0, transactions: 0, emis: 0, savingsGoals: 0 };
+
+    if (mode === 'replace') {
+      const [files, transactions, emis, goals] = await Promise.all([
+        store.listFiles(user.id),
+        store.listRecords('txn', user.id),
+        store.listRecords('emi', user.id),
+        store.listRecords('goal', user.id),
+      ]);
+      const fileIds = new Set(files.map((file) => file.id));
+      const inFile = (fileId: string) => (record: { fileId: string | null }) => record.fileId === fileId;
+
+      // Each file goes to the trash with its records, as a file delete would
+      for (const file of files) {
+        const contents = {
+          transactions: transactions.filter(inFile(file.id)),
+          emis: emis.filter(inFile(file.id)),
+          goals: goals.filter(inFile(file.id)),
+        };
+        const trashItem = createTrashItem(user.id, 'file', file, contents);
+        entries.push(
+          ...store.trashEntries(user.id, trashItem),
+          ...audit(user, 'delete', 'file', {
+            record: file,
+            counts: { transactions: contents.transactions.length, emis: contents.emis.length, savingsGoals: contents.goals.length },
+          }),
+        );
+      }
+
+      // Records outside any file go to the trash one by one
+      const loose: [store.RecordKind, any[]][] = [
+        ['txn', transactions.filter((record) => !record.fileId || !fileIds.has(record.fileId))],
+        ['emi', emis.filter((record) => !record.fileId || !fileIds.has(record.fileId))],
+        ['goal', goals.filter((record) => !record.fileId || !fileIds.has(record.fileId))],
+      ];
+      for (const [kind, records] of loose) {
+        for (const record of records) {
+          entries.push(
+            ...store.trashEntries(user.id, createTrashItem(user.id, kind, record)),
+            ...audit(user, 'delete', kind, { record }),
+          );
+        }
+      }
+
+      staleKeys.push(
+        ...files.map((file) => store.keys.file(user.id, file.id)),
+        ...transactions.flatMap((record) => store.recordKeys('txn', user.id, record)),
+        ...emis.flatMap((record) => store.recordKeys('emi', user.id, record)),
+        ...goals.flatMap((record) => store.recordKeys('goal', user.id, record)),
+      );
+      Object.assign(replaced, {
+        files: files.length,
+        transactions: transactions.length,
+        emis: emis.length,
+        savingsGoals: goals.length,
+      });
+    }
+
+    // Show the most recent restored file unless a merge keeps an existing active file
+    let activeFileId: string | null = mode === 'merge' ? (await kv.get(store.keys.activeFile(user.id)) || null) : null;
+    if (!activeFileId) {
+      const newest = [...plan.files].sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())[0];
+      activeFileId = newest?.id || null;
+    }
+
+    if (activeFileId) {
+      entries.push([store.keys.activeFile(user.id), activeFileId]);
+    } else {
+      staleKeys.push(store.keys.activeFile(user.id));
+    }
+
+    // Trash, audit and restored records land in one upsert before the old keys go
+    await store.writeEntries(entries);
+    await store.deleteKeys(staleKeys);
+
+    return c.json({
+      message: 'Backup restored successfully',
+      mode,
+      counts: {
+        files: plan.files.length,
+        transactions: built.transactions.length,
+        emis: built.emis.length,
+        savingsGoals: built.savingsGoals.length,
+      },
+      replaced,
+      activeFileId,
+    });
+  } catch (error) {
+    console.log('Restore error:', error);
+    return c.json({ error: `Failed to restore backup: ${error.message}` }, 500);
+  }
+});
+
+// ==================== SETTINGS ROUTES ====================
+
+// The user's settings, plus the assistant providers and defaults this deployment offers
+app.get("/make-server-2ee15a73/settings", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const settings = await store.getSettings(user.id);
+
+    return c.json({ settings, chat: chatDeployment() });
+  } catch (error) {
+    console.log('Get settings error:', error);
+    return c.json({ error: `Failed to get settings: ${error.message}` }, 500);
+  }
+});
+
+// Update the assistant settings. Body: { chat: { provider?, model?, temperature?, maxTokens? } };
+// null resets a field to the deployment default.
+app.put("/make-server-2ee15a73/settings", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const { errors, changes } = validateChatSettings(body?.chat);
+
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid settings', fieldErrors: errors.map((e) => ({ ...e, field: `chat.${e.field}` })) }, 400);
+    }
+
+    const deployment = chatDeployment();
+    if (changes.provider && !deployment.providers.includes(changes.provider)) {
+      return c.json({ error: 'Invalid settings', fieldErrors: [{ field: 'chat.provider', message: 'Not available on this server' }] }, 400);
+    }
+
+    const current = await store.getSettings(user.id);
+    const settings: UserSettings = {
+      ...current,
+      chat: { ...current.chat, ...changes },
+      updatedAt: new Date().toISOString(),
+    };
+    await kv.set(store.keys.settings(user.id), settings);
+
+    return c.json({ message: 'Settings updated', settings, chat: deployment });
+  } catch (error) {
+    console.log('Update settings error:', error);
+    return c.json({ error: `Failed to update settings: ${error.message}` }, 500);
+  }
+});
+
+// ==================== CONVERSATION ROUTES ====================
+
+// Saved conversations about one file (`fileId`, default the active file), most recent first
+app.get("/make-server-2ee15a73/conversations", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const fileId: string | null = c.req.query('fileId') || await kv.get(store.keys.activeFile(user.id)) || null;
+    if (!fileId) {
+      return c.json({ conversations: [] });
+    }
+
+    const conversations = (await store.listConversations(user.id, fileId))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(summarizeConversation);
+
+    return c.json({ conversations });
+  } catch (error) {
+    console.log('Get conversations error:', error);
+    return c.json({ error: `Failed to get conversations: ${error.message}` }, 500);
+  }
+});
+
+// Start an empty conversation. Body: { fileId?, title? }; without a title the first
+// question names it.
+app.post("/make-server-2ee15a73/conversations", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const { errors, changes } = validateConversationUpdate({ title: body?.title ?? null });
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid conversation', fieldErrors: errors }, 400);
+    }
+
+    const fileId: string | null = body?.fileId || await kv.get(store.keys.activeFile(user.id)) || null;
+    if (!fileId) {
+      return c.json({ error: 'No file selected' }, 400);
+    }
+    if (!await store.getFile(user.id, fileId)) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    const conversation = createConversation(fileId, changes.title ?? null);
+    await store.writeEntries(store.conversationEntries(user.id, conversation));
+
+    return c.json({ message: 'Conversation created', conversation });
+  } catch (error) {
+    console.log('Create conversation error:', error);
+    return c.json({ error: `Failed to create conversation: ${error.message}` }, 500);
+  }
+});
+
+app.get("/make-server-2ee15a73/conversations/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const conversation = await store.getConversation(user.id, c.req.param('id'));
+    if (!conversation) {
+      return c.json({ error: 'Conversation not found' }, 404);
+    }
+
+    return c.json({ conversation });
+  } catch (error) {
+    console.log('Get conversation error:', error);
+    return c.json({ error: `Failed to get conversation: ${error.message}` }, 500);
+  }
+});
+
+// Rename a conversation. Body: { title }
+app.put("/make-server-2ee15a73/conversations/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const conversation = await store.getConversation(user.id, c.req.param('id'));
+    if (!conversation) {
+      return c.json({ error: 'Conversation not found' }, 404);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const { errors, changes } = validateConversationUpdate(body);
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid conversation', fieldErrors: errors }, 400);
+    }
+
+    const updated: Conversation = { ...conversation, ...changes, updatedAt: new Date().toISOString() };
+    await store.writeEntries(store.conversationEntries(user.id, updated));
+
+    return c.json({ message: 'Conversation updated', conversation: summarizeConversation(updated) });
+  } catch (error) {
+    console.log('Update conversation error:', error);
+    return c.json({ error: `Failed to update conversation: ${error.message}` }, 500);
+  }
+});
+
+app.delete("/make-server-2ee15a73/conversations/:id", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const conversation = await store.getConversation(user.id, c.req.param('id'));
+    if (!conversation) {
+      return c.json({ error: 'Conversation not found' }, 404);
+    }
+
+    await store.deleteKeys(store.conversationKeys(user.id, conversation));
+
+    return c.json({ message: 'Conversation deleted' });
+  } catch (error) {
+    console.log('Delete conversation error:', error);
+    return c.json({ error: `Failed to delete conversation: ${error.message}` }, 500);
+  }
+});
+
+// The conversation as a Markdown file
+app.get("/make-server-2ee15a73/conversations/:id/export", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const conversation = await store.getConversation(user.id, c.req.param('id'));
+    if (!conversation) {
+      return c.json({ error: 'Conversation not found' }, 404);
+    }
+
+    const file = await store.getFile(user.id, conversation.fileId);
+
+    return c.body(conversationMarkdown(conversation, file), 200, {
+      'Content-Type': 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${conversationFileName(conversation)}"`,
+    });
+  } catch (error) {
+    console.log('Export conversation error:', error);
+    return c.json({ error: `Failed to export conversation: ${error.message}` }, 500);
+  }
+});
+
+// Add a finished question and answer to a saved conversation. Read again first so a
+// rename made while the answer streamed is kept; a conversation deleted meanwhile stays deleted.
+async function saveTurn(
+  userId: string,
+  conversationId: string,
+  question: string,
+  reply: string,
+  citations: ChatCitation[],
+  memory: ChatMemory | null,
+) {
+  const conversation = await store.getConversation(userId, conversationId);
+  if (!conversation) return;
+  await store.writeEntries(store.conversationEntries(userId, addTurn(conversation, question, reply, citations, memory)));
+}
+
+// ==================== CHAT ROUTE ====================
+
+// Answer a question about one file's data with the configured model.
+// Body: { message, fileId?, history?, summary?, stream? }; `fileId` defaults to the active
+// file. The financial context is built here from stored records; the client sends the
+// question and the earlier turns. When those turns outgrow the budget the oldest are
+// summarized and the response carries `memory` for the client to keep.
+// Common questions about figures (spend per category or month, income, EMIs, goals, top
+// categories) are answered from the data without a model (see intents.tsx); the model
+// handles the rest. Without one, those get a reply listing what can be asked.
+// With `conversationId` the question is asked in that saved conversation, which supplies
+// the file and earlier turns, and the question and answer are saved to it.
+// The provider, model, temperature and reply length come from the user's settings where
+// the deployment allows them (see llm.tsx).
+// The model answers specific questions by calling the ledger tools in tools.tsx, and the
+// response lists the rows they read as `citations`.
+// With `stream: true` the reply is sent as SSE: `memory` (if any), `delta` events,
+// `citations` (if any), then `done`, or `error` if the model fails; closing the
+// connection cancels the model request.
+app.post("/make-server-2ee15a73/chat", async (c) => {
+  try {
+    const { error, user } = await verifyUser(c.req.header('Authorization'));
+    
+    if (error || !user) {
+      return c.json({ error: error || 'Unauthorized' }, 401);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const message = typeof body?.message === 'string' ? body.message.trim() : '';
+
+    if (!message) {
+      return c.json({ error: 'Invalid request', fieldErrors: [{ field: 'message', message: 'Required' }] }, 400);
+    }
+    if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return c.json({ error: 'Invalid request', fieldErrors: [{ field: 'message', message: `Must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters` }] }, 400);
+    }
+
+    const { errors, history: requestHistory, summary: requestSummary } = validateHistory(body);
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid request', fieldErrors: errors }, 400);
+    }
+
+    let conversation: Conversation | null = null;
+    if (body.conversationId !== undefined) {
+      conversation = typeof body.conversationId === 'string' ? await store.getConversation(user.id, body.conversationId) : null;
+      if (!conversation) {
+        return c.json({ error: 'Conversation not found' }, 404);
+      }
+    }
+
+    // A saved conversation brings its own file and earlier turns
+    const { history, summary: previousSummary } = conversation
+      ? conversationHistory(conversation)
+      : { history: requestHistory, summary: requestSummary };
+
+    const fileId: string | null = conversation?.fileId || body.fileId || await kv.get(store.keys.activeFile(user.id)) || null;
+    if (!fileId) {
+      return c.json({ error: 'No file selected' }, 400);
+    }
+    if (!await store.getFile(user.id, fileId)) {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    const { transactions, emis, goals } = await store.listFileContents(user.id, fileId);
+    const model = resolveChatModel((await store.getSettings(user.id)).chat);
+    const local = answerLocally({ transactions, emis, goals }, message);
+
+    // Answered from the data, or there is no model to ask
+    if (local || !model) {
+      const { reply, citations } = local ?? { reply: OFFLINE_REPLY, citations: [] };
+      if (conversation) {
+        await saveTurn(user.id, conversation.id, message, reply, citations, null);
+      }
+
+      if (body.stream === true) {
+        return streamSSE(c, async (stream) => {
+          const send = ({ event, ...data }: ChatStreamEvent) => stream.writeSSE({ event, data: JSON.stringify(data) });
+
+          await send({ event: 'delta', content: reply });
+          if (citations.length > 0) {
+            await send({ event: 'citations', citations });
+          }
+          await send({ event: 'done' });
+        });
+      }
+
+      return c.json({ reply, memory: null, citations });
+    }
+
+    const { summary, recent, memory } = await fitHistory(model, history, previousSummary);
+    const messages = conversationMessages(buildFinancialContext(transactions, emis, goals), summary, recent, message);
+
+    if (body.stream === true) {
+      return streamSSE(c, async (stream) => {
+        const upstream = new AbortController();
+        stream.onAbort(() => upstream.abort());
+
+        const send = ({ event, ...data }: ChatStreamEvent) => stream.writeSSE({ event, data: JSON.stringify(data) });
+        let reply = '';
+
+        try {
+          if (memory) {
+            await send({ event: 'memory', ...memory });
+          }
+
+          const citations = await runChat(
+            model,
+            messages,
+            { transactions, emis, goals },
+            (content) => {
+              reply += content;
+              return send({ event: 'delta', content });
+            },
+            upstream.signal,
+          );
+
+          if (citations.length > 0) {
+            await send({ event: 'citations', citations });
+          }
+          if (conversation) {
+            await saveTurn(user.id, conversation.id, message, reply, citations, memory);
+          }
+          await send({ event: 'done' });
+        } catch (error) {
+          // Stopped by the client; there is no one left to tell, but the client keeps
+          // what it received, so the conversation does too
+          if (upstream.signal.aborted) {
+            if (conversation && reply) {
+              await saveTurn(user.id, conversation.id, message, reply, [], memory);
+            }
+            return;
+          }
+
+          console.log('Chat model error:', error);
+          await send({ event: 'error', error: `The assistant could not answer: ${error.message}` });
+        }
+      });
+    }
+
+    let reply = '';
+    let citations: ChatCitation[];
+    try {
+      citations = await runChat(model, messages, { transactions, emis, goals }, (content) => {
+        reply += content;
+      });
+    } catch (modelError) {
+      console.log('Chat model error:', modelError);
+      return c.json({ error: `The assistant could not answer: ${modelError.message}` }, 502);
+    }
+
+    if (conversation) {
+      await saveTurn(user.id, conversation.id, message, reply, citations, memory);
+    }
+
+    return c.json({ reply, memory, citations });
+  } catch (error) {
+    console.log('Chat error:', error);
+    return c.json({ error: `Failed to answer: ${error.message}` }, 500);
   }
 });
 
@@ -0,0 +1,263 @@
+// Questions the assistant answers without a model. Common questions about spending,
+// income, EMIs and savings goals are recognised with a few patterns and answered from
+// the stored records, so they work when no provider is configured and cost nothing when
+// one is. Anything else, and every request for advice, is left to the model.
+
+import { filterTransactions, type TransactionQuery } from "./query.tsx";
+import { summarizeTransactions } from "./summary.tsx";
+import { emiStatus, emiRemaining, formatInr, goalProgress } from "./financial-context.tsx";
+import { citeEmi, citeGoal, citeTransactions, type LedgerData } from "./tools.tsx";
+import type { ChatCitation, Transaction } from "./models.tsx";
+
+export interface LocalAnswer {
+  reply: string;
+  citations: ChatCitation[];
+}
+
+// How many categories "top categories" lists, and how many months a monthly breakdown shows
+const TOP_CATEGORIES = 5;
+const BREAKDOWN_MONTHS = 12;
+
+// Questions that ask for judgement rather than a figure go to the model
+const ADVICE = /\b(should|advice|advise|suggest\w*|tips?|recommend\w*|reduce|cut|improve|optimi[sz]e|budget\w*|plan\w*|afford|why|compare|predict|forecast|invest\w*)\b|\bhow (can|could|do|should) i\b|\bcan i\b|\bwhat if\b/;
+
+const EMI = /\bemis?\b|\bloans?\b|\binstal+ments?\b/;
+const GOAL = /\bgoals?\b/;
+const TOP = /\b(top|biggest|largest|highest|main)\b.*\b(categor\w*|expenses?|spending)\b|\bcategor\w* (breakdown|wise)\b|\bby categor\w*\b|\bwhere\b.*\bmoney go/;
+const INCOME = /\b(income|earn\w*|salary)\b/;
+const SPEND = /\b(spen[dt]|spending|expenses?|expenditure)\b/;
+const MONTHLY = /\b(per|each|every|by) month\b|\bmonthly\b|\bmonth by month\b/;
+
+// Words that may follow "on", "at" and the like without naming something we didn't
+// recognise, as in "spend in total" or "spending for this month"
+const FILLER = new Set(['in', 'during', 'this', 'last', 'total', 'the', 'my', 'all', 'average', 'each', 'every', 'month', 'year', 'so', 'far']);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = /\b(?:(in|for|during|of) )?(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)(?: (\d{4}))?\b/;
+
+// A month or a year the question is about, in the form filterTransactions takes
+interface Period {
+  label: string;
+  year: number;
+  month: number | null;    // 0-based, null for the whole year
+  match: string;           // the words that named it
+}
+
+const monthLabel = (year: number, month: number) =>
+  new Date(year, month, 1).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+
+function period(year: number, month: number | null, match: string): Period {
+  return { label: month === null ? String(year) : monthLabel(year, month), year, month, match };
+}
+
+// "this month", "last month", "this year", "last year", "in March", "March 2024" or "in 2024".
+// A month without a year is the latest one the data covers.
+function readPeriod(text: string, transactions: Transaction[], now: Date): Period | null {
+  const relative = text.match(/\b(this|last|previous) (month|year)\b/);
+  if (relative) {
+    const back = relative[1] === 'this' ? 0 : 1;
+    if (relative[2] === 'year') return period(now.getFullYear() - back, null, relative[0]);
+    const date = new Date(now.getFullYear(), now.getMonth() - back, 1);
+    return period(date.getFullYear(), date.getMonth(), relative[0]);
+  }
+
+  const named = text.match(MONTH_NAME);
+  // "may" is only a month when it is clearly used as one
+  if (named && (named[2] !== 'may' || named[1] || named[3])) {
+    const month = MONTHS.indexOf(named[2].slice(0, 3));
+    if (named[3]) return period(parseInt(named[3]), month, named[0]);
+
+    const years = transactions
+      .map((t) => new Date(t.date))
+      .filter((date) => date.getMonth() === month)
+      .map((date) => date.getFullYear());
+    const year = years.length > 0
+      ? Math.max(...years)
+      : now.getFullYear() - (month > now.getMonth() ? 1 : 0);
+    return period(year, month, named[0]);
+  }
+
+  const year = text.match(/\b(?:in|for|during) (\d{4})\b/);
+  if (year) return period(parseInt(year[1]), null, year[0]);
+
+  return null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The expense category the question names, if any; the longest name wins so
+// "Food Delivery" beats "Food"
+function readCategory(text: string, transactions: Transaction[]) {
+  const names = Array.from(new Set(transactions.filter((t) => t.type === 'Expense').map((t) => t.category)))
+    .sort((a, b) => b.length - a.length);
+
+  for (const name of names) {
+    const match = text.match(new RegExp(`\\b${escapeRegExp(name.toLowerCase())}(e?s)?\\b`));
+    if (match) return { name, match: match[0] };
+  }
+  return null;
+}
+
+// True when, once the recognised words are taken out, the question still points at
+// something specific ("at Swiggy", "on rent") that only the model's tools can look up
+function namesSomethingElse(text: string, recognised: string[]) {
+  const rest = recognised.reduce((remaining, words) => remaining.replace(words, ' '), text);
+  return Array.from(rest.matchAll(/\b(?:on|at|with|to|for|from) ([a-z0-9]+)/g))
+    .some(([, word]) => !FILLER.has(word));
+}
+
+function queryFor(when: Period | null, query: TransactionQuery = {}): TransactionQuery {
+  return when
+    ? { ...query, year: String(when.year), month: when.month === null ? undefined : String(when.month) }
+    : query;
+}
+
+const total = (rows: Transaction[]) => rows.reduce((sum, t) => sum + t.amount, 0);
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+const inPeriod = (when: Period | null) => when ? ` in ${when.label}` : '';
+
+function spendingAnswer(data: LedgerData, when: Period | null, category: string | null, text: string): LocalAnswer {
+  const rows = filterTransactions(data.transactions, queryFor(when, {
+    type: 'Expense',
+    categories: category ? [category] : undefined,
+  }));
+
+  if (rows.length === 0) {
+    return { reply: `I found no ${category ? `${category} ` : ''}expenses${inPeriod(when)}.`, citations: [] };
+  }
+
+  if (!category && !when && MONTHLY.test(text)) {
+    const months = new Map<string, number>();
+    for (const t of rows) {
+      months.set(t.date.slice(0, 7), (months.get(t.date.slice(0, 7)) || 0) + t.amount);
+    }
+    const lines = Array.from(months.entries())
+      .slice(-BREAKDOWN_MONTHS)
+      .map(([month, amount]) => `- ${monthLabel(parseInt(month.slice(0, 4)), parseInt(month.slice(5, 7)) - 1)}: ${formatInr(amount)}`);
+    return {
+      reply: `Your expenses by month${months.size > BREAKDOWN_MONTHS ? ` (last ${BREAKDOWN_MONTHS})` : ''}:\n${lines.join('\n')}`,
+      citations: citeTransactions(rows),
+    };
+  }
+
+  return {
+    reply: category
+      ? `You spent ${formatInr(total(rows))} on ${category}${inPeriod(when)}, across ${plural(rows.length, 'transaction')}.`
+      : `Your expenses${inPeriod(when)} come to ${formatInr(total(rows))}, across ${plural(rows.length, 'transaction')}.`,
+    citations: citeTransactions(rows),
+  };
+}
+
+function incomeAnswer(data: LedgerData, when: Period | null, withExpenses: boolean): LocalAnswer {
+  const rows = filterTransactions(data.transactions, queryFor(when));
+  const income = rows.filter((t) => t.type === 'Income');
+
+  if (withExpenses) {
+    const { totals, savingsRate } = summarizeTransactions(rows);
+    return {
+      reply: `${when ? `In ${when.label} you` : 'You'} earned ${formatInr(totals.income)} and spent ${formatInr(totals.expense)}, ` +
+        `leaving ${formatInr(totals.net)} (a savings rate of ${savingsRate.toFixed(1)}%).`,
+      citations: citeTransactions(rows),
+    };
+  }
+
+  if (income.length === 0) {
+    return { reply: `I found no income${inPeriod(when)}.`, citations: [] };
+  }
+  return {
+    reply: `Your total income${inPeriod(when)} is ${formatInr(total(income))}, from ${plural(income.length, 'transaction')}.`,
+    citations: citeTransactions(income),
+  };
+}
+
+function topCategoriesAnswer(data: LedgerData, when: Period | null): LocalAnswer {
+  const rows = filterTransactions(data.transactions, queryFor(when, { type: 'Expense' }));
+  const top = summarizeTransactions(rows).byCategory.slice(0, TOP_CATEGORIES);
+
+  if (top.length === 0) {
+    return { reply: `I found no expenses${inPeriod(when)}.`, citations: [] };
+  }
+
+  const names = top.map((category) => category.name);
+  return {
+    reply: `Your top spending categories${inPeriod(when)}:\n` +
+      top.map((category, index) => `${index + 1}. ${category.name}: ${formatInr(category.amount)} (${category.share.toFixed(1)}%)`).join('\n'),
+    citations: citeTransactions(rows.filter((t) => names.includes(t.category))),
+  };
+}
+
+function emiAnswer(data: LedgerData, now: Date): LocalAnswer {
+  if (data.emis.length === 0) {
+    return { reply: "You haven't added any EMIs yet.", citations: [] };
+  }
+
+  const unpaid = data.emis
+    .filter((emi) => emiStatus(emi, now.getTime()) !== 'paid')
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  if (unpaid.length === 0) {
+    return { reply: 'All your EMIs are paid.', citations: data.emis.map(citeEmi) };
+  }
+
+  const lines = unpaid.map((emi) => {
+    const remaining = emiRemaining(emi);
+    return `- ${emi.name}: ${formatInr(emi.amount)} due ${emi.dueDate}` +
+      (emiStatus(emi, now.getTime()) === 'overdue' ? ' (overdue)' : '') +
+      (remaining !== null ? `, ${formatInr(remaining)} left to pay` : '');
+  });
+  return {
+    reply: `You have ${plural(unpaid.length, 'EMI')} to pay, ${formatInr(unpaid.reduce((sum, emi) => sum + emi.amount, 0))} a month:\n${lines.join('\n')}`,
+    citations: unpaid.map(citeEmi),
+  };
+}
+
+function goalAnswer(data: LedgerData, now: Date): LocalAnswer {
+  if (data.goals.length === 0) {
+    return { reply: "You haven't set any savings goals yet.", citations: [] };
+  }
+
+  const lines = data.goals.map((goal) => {
+    const progress = goalProgress(goal, now);
+    const line = `- ${goal.name}: ${formatInr(goal.currentAmount)} of ${formatInr(goal.targetAmount)} (${progress.percent.toFixed(1)}%)`;
+    if (progress.remaining === 0) return `${line}, reached`;
+    return `${line}, ${formatInr(progress.remaining)} to go by ${goal.deadline}` +
+      (progress.monthsLeft ? `, about ${formatInr(Math.ceil(progress.monthlyNeeded))} a month` : '');
+  });
+  return {
+    reply: `Your savings goals:\n${lines.join('\n')}`,
+    citations: data.goals.map(citeGoal),
+  };
+}
+
+// Answer the question from the data if it is one of the common ones, or null to
+// leave it to the model
+export function answerLocally(data: LedgerData, message: string, now = new Date()): LocalAnswer | null {
+  const text = message.toLowerCase().replace(/\s+/g, ' ');
+  if (ADVICE.test(text)) return null;
+
+  if (EMI.test(text)) return emiAnswer(data, now);
+  if (GOAL.test(text)) return goalAnswer(data, now);
+
+  const when = readPeriod(text, data.transactions, now);
+  const recognised = when ? [when.match] : [];
+
+  if (TOP.test(text)) {
+    return namesSomethingElse(text, recognised) ? null : topCategoriesAnswer(data, when);
+  }
+
+  const category = SPEND.test(text) ? readCategory(text, data.transactions) : null;
+  if (category) recognised.push(category.match);
+  if (namesSomethingElse(text, recognised)) return null;
+
+  if (INCOME.test(text)) return incomeAnswer(data, when, SPEND.test(text));
+  if (SPEND.test(text)) return spendingAnswer(data, when, category?.name ?? null, text);
+
+  return null;
+}
+
+// Reply when a question needs the model and the server has none
+export const OFFLINE_REPLY = `I can only answer questions about your figures right now, because no AI model is configured on this server. Try asking:
+- How much did I spend on Food last month?
+- What's my total income?
+- Show my top spending categories
+- What are my upcoming EMIs?
+- How are my savings goals progressing?`;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { chunk, likePrefix, readAllPages } from "./kv_paging.tsx";
+
+// A table of `count` rows served a page at a time, the way `.range(from, to)` does
+function pagedTable(count: number) {
+  const rows = Array.from({ length: count }, (_, i) => `row_${i}`);
+  const requests: [number, number][] = [];
+  const readPage = async (from: number, to: number) => {
+    requests.push([from, to]);
+    return rows.slice(from, to + 1);
+  };
+  return { rows, requests, readPage };
+}
+
+describe('readAllPages', () => {
+  it('reads every page when there are more rows than one page holds', async () => {
+    const table = pagedTable(2500);
+
+    const rows = await readAllPages(table.readPage, 1000);
+
+    expect(rows).toEqual(table.rows);
+    expect(table.requests).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('asks for one more page when the rows fill the last page exactly', async () => {
+    const table = pagedTable(2000);
+
+    const rows = await readAllPages(table.readPage, 1000);
+
+    expect(rows).toHaveLength(2000);
+    expect(table.requests).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('stops after one request for a short result', async () => {
+    const table = pagedTable(3);
+
+    expect(await readAllPages(table.readPage, 1000)).toEqual(['row_0', 'row_1', 'row_2']);
+    expect(table.requests).toHaveLength(1);
+  });
+});
+
+describe('likePrefix', () => {
+  it('escapes LIKE wildcards and backslashes in the prefix', () => {
+    expect(likePrefix('txn:user_1:file_2:')).toBe('txn:user\\_1:file\\_2:%');
+    expect(likePrefix('a%b\\c')).toBe('a\\%b\\\\c%');
+  });
+});
+
+describe('chunk', () => {
+  it('splits keys into chunks of at most the given size', () => {
+    const keys = Array.from({ length: 450 }, (_, i) => `key_${i}`);
+
+    const chunks = chunk(keys, 200);
+
+    expect(chunks.map((c) => c.length)).toEqual([200, 200, 50]);
+    expect(chunks.flat()).toEqual(keys);
+  });
+
+  it('returns no chunks for no keys', () => {
+    expect(chunk([], 200)).toEqual([]);
+  });
+});
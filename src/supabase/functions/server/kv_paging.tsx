@@ -0,0 +1,36 @@
+// Reading and deleting many KV rows at a time.
+// Pure functions so the paging and chunking can be tested without a database.
+
+// Supabase caps a select at 1000 rows unless the request asks for a range
+export const KV_PAGE_SIZE = 1000;
+
+// Keys per `.in()` filter. The filter goes into the request URL, so a few thousand
+// keys at once would make it too long for the server to accept.
+export const KV_KEY_CHUNK_SIZE = 200;
+
+// LIKE pattern matching every key that starts with `prefix`. Wildcards in the
+// prefix are escaped so an id containing `_` matches only itself.
+export function likePrefix(prefix: string) {
+  return `${prefix.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+// Read `readPage(from, to)` (inclusive row offsets) until a page comes back short
+export async function readAllPages<T>(
+  readPage: (from: number, to: number) => Promise<T[]>,
+  pageSize = KV_PAGE_SIZE,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const page = await readPage(from, from + pageSize - 1);
+    rows.push(...page);
+    if (page.length < pageSize) return rows;
+  }
+}
+
+export function chunk<T>(items: T[], size = KV_KEY_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
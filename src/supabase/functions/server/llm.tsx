@@ -0,0 +1,299 @@
+// Model providers for the finance assistant. Every provider takes OpenAI-style chat
+// messages and tool definitions; the hosted and self-hosted ones all speak the OpenAI
+// chat completions protocol and differ only in endpoint, key and default model.
+//
+// Configured with edge function secrets. A provider is offered when it is configured:
+//
+//   GROQ_API_KEY      [GROQ_API_URL, GROQ_MODEL]          Groq
+//   OPENAI_API_KEY    [OPENAI_API_URL, OPENAI_MODEL]      OpenAI or any hosted OpenAI-compatible API
+//   LOCAL_LLM_URL     [LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY] self-hosted server (llama.cpp, Ollama)
+//   LLM_ENABLE_MOCK=true                                  deterministic mock, for tests
+//
+// Deployment defaults, which users can override in their assistant settings:
+//
+//   LLM_PROVIDER      groq, openai, local or mock (default: the first one configured)
+//   LLM_MODEL         model for the default provider (default: the provider's own)
+//   LLM_TEMPERATURE   0 to 2 (default 0.7)
+//   LLM_MAX_TOKENS    longest reply (default 1024)
+
+import {
+  LLM_PROVIDERS,
+  TEMPERATURE_RANGE,
+  MAX_TOKENS_RANGE,
+  type ChatDeployment,
+  type ChatMessage,
+  type ChatSettings,
+  type LlmProviderId,
+} from "./models.tsx";
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// Messages on the wire: chat turns plus the tool calls and results of the current question
+export type ModelMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string | null; tool_calls: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface CompletionOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Whole reply, without tools. Throws with the provider's message on failure.
+  complete(messages: ModelMessage[], options: CompletionOptions): Promise<string>;
+  // Stream one round: text goes to `onDelta`; resolves with the tool calls the model
+  // asked for instead, if any. Throws with the provider's message on failure, and
+  // with an AbortError when `signal` is aborted.
+  stream(
+    messages: ModelMessage[],
+    options: CompletionOptions & { tools?: unknown[] },
+    onDelta: (content: string) => void | Promise<void>,
+    signal?: AbortSignal,
+  ): Promise<ToolCall[]>;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface Endpoint {
+  url: string;
+  apiKey: string | null;
+  model: string;
+}
+
+const env = (name: string) => Deno.env.get(name)?.trim() || null;
+
+// Where each provider is reached, or null when it isn't configured
+function endpointFor(id: LlmProviderId): Endpoint | null {
+  switch (id) {
+    case 'groq': {
+      const apiKey = env('GROQ_API_KEY');
+      return apiKey
+        ? {
+          url: env('GROQ_API_URL') || 'https://api.groq.com/openai/v1/chat/completions',
+          apiKey,
+          model: env('GROQ_MODEL') || 'llama-3.3-70b-versatile',
+        }
+        : null;
+    }
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      return apiKey
+        ? {
+          url: env('OPENAI_API_URL') || 'https://api.openai.com/v1/chat/completions',
+          apiKey,
+          model: env('OPENAI_MODEL') || 'gpt-4o-mini',
+        }
+        : null;
+    }
+    case 'local': {
+      const url = env('LOCAL_LLM_URL');
+      return url
+        ? { url, apiKey: env('LOCAL_LLM_API_KEY'), model: env('LOCAL_LLM_MODEL') || 'llama3.1' }
+        : null;
+    }
+    case 'mock':
+      return env('LLM_ENABLE_MOCK') === 'true' || env('LLM_PROVIDER') === 'mock'
+        ? { url: '', apiKey: null, model: 'mock' }
+        : null;
+  }
+}
+
+export function availableProviders() {
+  return LLM_PROVIDERS.filter((id) => endpointFor(id) !== null);
+}
+
+function defaultProvider(available: LlmProviderId[]) {
+  const configured = env('LLM_PROVIDER') as LlmProviderId | null;
+  return configured && available.includes(configured) ? configured : available[0] ?? null;
+}
+
+// A number from the environment, if it is set and in range
+function envNumber(name: string, range: { min: number; max: number }) {
+  const value = parseFloat(env(name) ?? '');
+  return isFinite(value) && value >= range.min && value <= range.max ? value : null;
+}
+
+export function chatDeployment(): ChatDeployment {
+  const providers = availableProviders();
+  const fallback = defaultProvider(providers);
+
+  return {
+    providers,
+    defaultProvider: fallback,
+    defaultModels: Object.fromEntries(providers.map((id) => [
+      id,
+      id === fallback && env('LLM_MODEL') ? env('LLM_MODEL') : endpointFor(id)!.model,
+    ])),
+    temperature: envNumber('LLM_TEMPERATURE', TEMPERATURE_RANGE) ?? DEFAULT_TEMPERATURE,
+    maxTokens: Math.round(envNumber('LLM_MAX_TOKENS', MAX_TOKENS_RANGE) ?? DEFAULT_MAX_TOKENS),
+  };
+}
+
+// The provider and options for one user's request: their settings where the deployment
+// allows them, the deployment defaults otherwise. Null when no provider is configured.
+export function resolveChatModel(settings: ChatSettings | null) {
+  const deployment = chatDeployment();
+  const id = settings?.provider && deployment.providers.includes(settings.provider)
+    ? settings.provider
+    : deployment.defaultProvider;
+
+  if (!id) return null;
+
+  const endpoint = endpointFor(id)!;
+  const options: CompletionOptions = {
+    model: settings?.model || deployment.defaultModels[id] || endpoint.model,
+    temperature: settings?.temperature ?? deployment.temperature,
+    maxTokens: settings?.maxTokens ?? deployment.maxTokens,
+  };
+
+  return {
+    provider: id === 'mock' ? createMockProvider() : createOpenAiCompatible(id, endpoint),
+    options,
+  };
+}
+
+// ==================== OPENAI-COMPATIBLE ====================
+
+function createOpenAiCompatible(id: LlmProviderId, endpoint: Endpoint): LlmProvider {
+  const request = (
+    messages: ModelMessage[],
+    options: CompletionOptions & { tools?: unknown[] },
+    stream: boolean,
+    signal?: AbortSignal,
+  ) =>
+    fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        temperature: options.temperature,
+        // Older servers (llama.cpp, Ollama) only read max_tokens
+        max_tokens: options.maxTokens,
+        max_completion_tokens: options.maxTokens,
+        top_p: 1,
+        stream,
+        tools: options.tools,
+      }),
+      signal,
+    });
+
+  return {
+    id,
+
+    async complete(messages, options) {
+      const res = await request(messages, options, false);
+      if (!res.ok) {
+        throw new Error(await upstreamError(res));
+      }
+
+      const data = await res.json();
+      const reply: string | undefined = data?.choices?.[0]?.message?.content;
+      if (!reply) {
+        throw new Error('The model returned an empty response');
+      }
+      return reply;
+    },
+
+    async stream(messages, options, onDelta, signal) {
+      const res = await request(messages, options, true, signal);
+      if (!res.ok || !res.body) {
+        throw new Error(await upstreamError(res));
+      }
+      return await readStream(res.body, onDelta);
+    },
+  };
+}
+
+async function upstreamError(res: Response) {
+  const body = await res.json().catch(() => null);
+  return body?.error?.message || `Model request failed with status ${res.status}`;
+}
+
+// OpenAI-style SSE: one `data: {json}` line per chunk, ending with `data: [DONE]`.
+// Text deltas are passed on; tool calls arrive in pieces and are put back together.
+async function readStream(body: ReadableStream, onDelta: (content: string) => void | Promise<void>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  const toolCalls: ToolCall[] = [];
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return toolCalls;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return toolCalls;
+
+      const delta = JSON.parse(data)?.choices?.[0]?.delta;
+      if (delta?.content) {
+        await onDelta(delta.content);
+      }
+
+      for (const piece of delta?.tool_calls ?? []) {
+        const call = toolCalls[piece.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (piece.id) call.id = piece.id;
+        if (piece.function?.name) call.function.name += piece.function.name;
+        if (piece.function?.arguments) call.function.arguments += piece.function.arguments;
+      }
+    }
+  }
+}
+
+// ==================== MOCK ====================
+
+// Same input, same output, no network. A question of the form `/tool name {json}`
+// makes it call that tool, and after a tool call it answers with the tool's result,
+// so the tool loop can be exercised end to end.
+function createMockProvider(): LlmProvider {
+  const reply = (messages: ModelMessage[]) => {
+    const last = messages[messages.length - 1];
+    if (last.role === 'tool') {
+      return `Tool result: ${last.content}`;
+    }
+    const question = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    return `Mock answer to "${question}" (${messages.length} messages in context)`;
+  };
+
+  return {
+    id: 'mock',
+
+    async complete(messages) {
+      return `Mock summary of ${messages.length} messages`;
+    },
+
+    async stream(messages, options, onDelta, signal) {
+      const last = messages[messages.length - 1];
+      const toolRequest = last.role === 'user' && options.tools
+        ? last.content?.match(/^\/tool (\w+)\s*(\{.*\})?$/s)
+        : null;
+
+      if (toolRequest) {
+        return [{ id: 'mock_call_1', type: 'function', function: { name: toolRequest[1], arguments: toolRequest[2] || '{}' } }];
+      }
+
+      for (const word of reply(messages).split(/(?<= )/)) {
+        signal?.throwIfAborted();
+        await onDelta(word);
+      }
+      return [];
+    },
+  };
+}
@@ -0,0 +1,769 @@
+// Domain model shared by the edge function and the web client.
+// This module must stay free of Deno and npm imports so both sides can import it:
+// the server as "./models.tsx", the client as "../supabase/functions/server/models".
+
+export type TransactionType = 'Income' | 'Expense';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['Income', 'Expense'];
+
+export interface Transaction {
+  id: string;
+  version: number;
+  date: string;            // YYYY-MM-DD
+  description: string;
+  category: string;
+  amount: number;
+  type: TransactionType;
+  source: string | null;
+  fileId: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type EmiStatus = 'upcoming' | 'overdue' | 'paid';
+
+const EMI_STATUSES: EmiStatus[] = ['upcoming', 'overdue', 'paid'];
+
+export interface Emi {
+  id: string;
+  version: number;
+  name: string;
+  amount: number;          // monthly instalment
+  dueDate: string;
+  totalAmount: number;
+  paid: number;
+  status: EmiStatus;
+  fileId: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SavingsGoal {
+  id: string;
+  version: number;
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  deadline: string;
+  status: string;
+  fileId: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface FileRecord {
+  id: string;
+  version: number;
+  fileName: string;
+  transactionCount: number;
+  uploadedAt: string;
+}
+
+// Payloads accepted when creating records. Server-assigned fields are omitted.
+export interface TransactionInput {
+  date: string;
+  description: string;
+  category: string;
+  amount: number;
+  type: TransactionType;
+  source?: string | null;
+  fileId?: string | null;
+}
+
+export interface EmiInput {
+  name: string;
+  amount: number;
+  dueDate: string;
+  totalAmount?: number;
+  paid?: number;
+  status?: EmiStatus;
+  fileId?: string | null;
+}
+
+export interface SavingsGoalInput {
+  name: string;
+  targetAmount: number;
+  currentAmount?: number;
+  deadline: string;
+  status?: string;
+  fileId?: string | null;
+}
+
+// Upper bound on rows of each kind accepted by a single bulk or import request
+export const MAX_BULK_ITEMS = 5000;
+
+export interface ImportPayload {
+  fileName: string;
+  transactions: TransactionInput[];
+  emis?: EmiInput[];
+  savingsGoals?: SavingsGoalInput[];
+}
+
+// Fields a client may change on an existing transaction
+export const TRANSACTION_UPDATE_FIELDS = ['date', 'description', 'category', 'amount', 'type', 'source'] as const;
+
+export type TransactionUpdate = Partial<Pick<Transaction, typeof TRANSACTION_UPDATE_FIELDS[number]>>;
+
+// Every stored record carries a version that is bumped on each write. Clients send the
+// version they last read in an `If-Match` header and get a 409 if it has moved on.
+// Records written before versioning was introduced have no field and count as version 1.
+export function versionOf(record: { version?: number }) {
+  return record.version ?? 1;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface BuildResult<T> {
+  error: string | null;
+  fieldErrors: FieldError[];
+  record: T | null;
+}
+
+// ==================== DASHBOARD SUMMARY ====================
+
+export interface SummaryBreakdownItem {
+  name: string;
+  amount: number;
+  count: number;
+  share: number; // percentage of the type's total, 0-100
+}
+
+export interface SummaryMonth {
+  month: string; // YYYY-MM
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface TransactionSummary {
+  totals: {
+    income: number;
+    expense: number;
+    net: number;
+    incomeCount: number;
+    expenseCount: number;
+  };
+  savingsRate: number; // percentage of income kept, 0 when there is no income
+  monthly: SummaryMonth[];
+  byCategory: SummaryBreakdownItem[]; // expenses
+  bySource: SummaryBreakdownItem[];   // income
+  largestExpense: Transaction | null;
+}
+
+// Response of GET /summary
+export interface DashboardSummary extends TransactionSummary {
+  availableYears: string[];
+}
+
+// ==================== AUDIT LOG ====================
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'import';
+
+// What an audit entry is about; record kinds use the same names as the store
+export type AuditSubject = 'txn' | 'emi' | 'goal' | 'file';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;               // ISO timestamp
+  actor: string | null;     // email of the user who made the change
+  action: AuditAction;
+  subject: AuditSubject;
+  recordId: string | null;  // null for bulk creates, which cover many records
+  label: string;            // human-readable name of the record at the time
+  fileId: string | null;
+  changes?: FieldChange[];  // updates only
+  snapshot?: unknown;       // deletes only: the record as it was removed
+  counts?: Record<string, number>;
+}
+
+// ==================== TRASH ====================
+
+// Deleted records are kept this long before they are purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface FileContents {
+  transactions: Transaction[];
+  emis: Emi[];
+  goals: SavingsGoal[];
+}
+
+export interface TrashItem {
+  id: string;
+  userId: string;           // owner, so a purge across all users can rebuild keys
+  subject: AuditSubject;
+  recordId: string;
+  label: string;
+  fileId: string | null;
+  deletedAt: string;
+  expiresAt: string;
+  record: Transaction | Emi | SavingsGoal | FileRecord;
+  contents?: FileContents;  // files only: everything deleted along with the file
+}
+
+// What GET /trash returns for each item: the record without a file's full contents
+export interface TrashSummary extends Omit<TrashItem, 'userId' | 'contents'> {
+  counts?: { transactions: number; emis: number; savingsGoals: number };
+}
+
+// ==================== ACCOUNT ====================
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: string;
+}
+
+// What was erased when an account was deleted
+export interface ErasureCounts {
+  files: number;
+  transactions: number;
+  emis: number;
+  savingsGoals: number;
+  auditEntries: number;
+  trashItems: number;
+  conversations: number;
+  keys: number;               // every KV key removed, indexes included
+}
+
+export interface DeletionReceipt {
+  id: string;
+  userId: string;
+  email: string | null;
+  requestedAt: string;
+  completedAt: string;
+  erased: ErasureCounts;
+  remainingKeys: number;      // keys still found under the user's prefixes afterwards
+}
+
+// ==================== BACKUP ====================
+
+// Version of the GET /export layout. Restore accepts any version up to this one;
+// exports from before versioning have no schemaVersion and are read as version 1.
+// Version 2 added `scope`: an export may cover one file and a date range.
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportFormat = 'json' | 'csv' | 'xlsx';
+
+// Sheets an xlsx export can include, in workbook order
+export const WORKBOOK_SECTIONS = ['summary', 'income', 'expenses', 'categories', 'emis', 'savings'] as const;
+export type WorkbookSection = typeof WORKBOOK_SECTIONS[number];
+
+// What an export covers. The date range applies to transactions only.
+export interface ExportScope {
+  fileId: string | null;      // null = every file
+  from: string | null;
+  to: string | null;
+}
+
+export interface ExportPayload {
+  schemaVersion: number;
+  exportedAt: string;
+  scope: ExportScope;
+  profile: UserProfile | null;
+  files: FileRecord[];
+  transactions: Transaction[];
+  emis: Emi[];
+  savings: SavingsGoal[];
+}
+
+// `merge` adds the backup next to existing data; `replace` moves existing data to the trash first
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+  files: number;
+  transactions: number;
+  emis: number;
+  savingsGoals: number;
+}
+
+// ==================== CHAT ====================
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Body of POST /chat. The server loads the file's data itself; `fileId` defaults to the active file.
+// `history` holds the earlier turns not yet folded into `summary`, oldest first.
+// With `conversationId` the file, history and summary come from that saved conversation
+// instead, and the question and reply are added to it.
+// With `stream` the reply comes back as server-sent events instead of JSON.
+export interface ChatRequest {
+  message: string;
+  fileId?: string;
+  history?: ChatMessage[];
+  summary?: string | null;
+  conversationId?: string;
+  stream?: boolean;
+}
+
+// Sent back when earlier turns no longer fit the model's budget: the first
+// `summarizedTurns` messages of the request's history are now covered by `summary`,
+// so the client sends the summary instead of those turns from then on
+export interface ChatMemory {
+  summary: string;
+  summarizedTurns: number;
+}
+
+// A stored record the assistant's tools read while answering
+export interface ChatCitation {
+  kind: 'txn' | 'emi' | 'goal';
+  id: string;
+  label: string;              // description or name
+  date: string | null;        // transaction date, EMI due date or goal deadline
+  amount: number;
+}
+
+// Events of a streamed POST /chat reply: `memory` if history was summarized,
+// any number of `delta`, `citations` if tools were used, then `done` or `error`
+export type ChatStreamEvent =
+  | ({ event: 'memory' } & ChatMemory)
+  | { event: 'delta'; content: string }
+  | { event: 'citations'; citations: ChatCitation[] }
+  | { event: 'done' }
+  | { event: 'error'; error: string };
+
+// One question or answer in a saved conversation
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[];
+  at: string;
+}
+
+// A saved conversation about one file. `memory` is the summary of its first
+// `memory.summarizedTurns` messages, as returned by the model.
+export interface Conversation {
+  id: string;
+  fileId: string;
+  title: string | null;       // null until the first question names it
+  messages: ConversationMessage[];
+  memory: ChatMemory | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A conversation without its messages, for lists
+export type ConversationSummary = Omit<Conversation, 'messages' | 'memory'> & { messageCount: number };
+
+export const MAX_CONVERSATION_TITLE_LENGTH = 100;
+export const CONVERSATION_UPDATE_FIELDS = ['title'] as const;
+
+// ==================== SETTINGS ====================
+
+// Model backends for the assistant. Which ones a deployment offers depends on its
+// environment (see llm.tsx); `mock` answers deterministically, for tests.
+export type LlmProviderId = 'groq' | 'openai' | 'local' | 'mock';
+
+export const LLM_PROVIDERS: LlmProviderId[] = ['groq', 'openai', 'local', 'mock'];
+
+// Per-user assistant preferences. null means the deployment default.
+export interface ChatSettings {
+  provider: LlmProviderId | null;
+  model: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+export const CHAT_SETTINGS_FIELDS = ['provider', 'model', 'temperature', 'maxTokens'] as const;
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_TOKENS_RANGE = { min: 64, max: 8192 };
+
+export interface UserSettings {
+  chat: ChatSettings;
+  updatedAt: string | null;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  chat: { provider: null, model: null, temperature: null, maxTokens: null },
+  updatedAt: null,
+};
+
+// What the deployment offers, returned with GET /settings so the client can show choices and defaults
+export interface ChatDeployment {
+  providers: LlmProviderId[];
+  defaultProvider: LlmProviderId | null;
+  defaultModels: Partial<Record<LlmProviderId, string>>;
+  temperature: number;
+  maxTokens: number;
+}
+
+// ==================== VALIDATION ====================
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Helper functions to build stored records from request payloads.
+// Each returns either the new record or the field-level errors, checked with the same
+// rules as the partial-update validators below.
+export function buildTransaction(input: any): BuildResult<Transaction> {
+  const errors: FieldError[] = [];
+  const fields: TransactionUpdate = {};
+  const body = readCreateBody(input, ['date', 'description', 'category', 'amount', 'type'], errors);
+
+  readDate(body, 'date', fields, errors);
+  readText(body, 'description', fields, errors);
+  readText(body, 'category', fields, errors);
+  readAmount(body, 'amount', fields, errors, { allowZero: false });
+
+  if ('type' in body && !TRANSACTION_TYPES.includes(body.type)) {
+    errors.push({ field: 'type', message: "Must be 'Income' or 'Expense'" });
+  }
+
+  if ('source' in body && typeof body.source !== 'string') {
+    errors.push({ field: 'source', message: 'Must be a string or null' });
+  }
+
+  if (errors.length > 0) {
+    return { error: 'Invalid transaction', fieldErrors: errors, record: null };
+  }
+
+  return {
+    error: null,
+    fieldErrors: [],
+    record: {
+      id: newId('txn'),
+      version: 1,
+      date: fields.date!,
+      description: fields.description!,
+      category: fields.category!,
+      amount: fields.amount!,
+      type: body.type,
+      source: body.source?.trim() || null,
+      fileId: body.fileId || null,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function buildEmi(input: any): BuildResult<Emi> {
+  const errors: FieldError[] = [];
+  const fields: EmiUpdate = {};
+  const body = readCreateBody(input, ['name', 'amount', 'dueDate'], errors);
+
+  readText(body, 'name', fields, errors);
+  readAmount(body, 'amount', fields, errors, { allowZero: false });
+  readDate(body, 'dueDate', fields, errors);
+  readAmount(body, 'totalAmount', fields, errors, { allowZero: true });
+  readAmount(body, 'paid', fields, errors, { allowZero: true });
+
+  // A total of 0 means the loan total is unknown, so there is nothing to compare against
+  const totalAmount = fields.totalAmount ?? 0;
+  const paid = fields.paid ?? 0;
+  if (totalAmount > 0 && paid > totalAmount) {
+    errors.push({ field: 'paid', message: 'Cannot exceed the total amount' });
+  }
+
+  if (errors.length > 0) {
+    return { error: 'Invalid EMI', fieldErrors: errors, record: null };
+  }
+
+  return {
+    error: null,
+    fieldErrors: [],
+    record: {
+      id: newId('emi'),
+      version: 1,
+      name: fields.name!,
+      amount: fields.amount!,
+      dueDate: fields.dueDate!,
+      totalAmount,
+      paid,
+      status: EMI_STATUSES.includes(body.status) ? body.status : 'upcoming',
+      fileId: body.fileId || null,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function buildSavingsGoal(input: any): BuildResult<SavingsGoal> {
+  const errors: FieldError[] = [];
+  const fields: SavingsGoalUpdate = {};
+  const body = readCreateBody(input, ['name', 'targetAmount', 'deadline'], errors);
+
+  readText(body, 'name', fields, errors);
+  readAmount(body, 'targetAmount', fields, errors, { allowZero: false });
+  readAmount(body, 'currentAmount', fields, errors, { allowZero: true });
+  readDate(body, 'deadline', fields, errors);
+  readText(body, 'status', fields, errors);
+
+  if (errors.length > 0) {
+    return { error: 'Invalid savings goal', fieldErrors: errors, record: null };
+  }
+
+  return {
+    error: null,
+    fieldErrors: [],
+    record: {
+      id: newId('goal'),
+      version: 1,
+      name: fields.name!,
+      targetAmount: fields.targetAmount!,
+      currentAmount: fields.currentAmount ?? 0,
+      deadline: fields.deadline!,
+      status: fields.status ?? 'on-track',
+      fileId: body.fileId || null,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function buildFileRecord(fileName: string, transactionCount: number): FileRecord {
+  return {
+    id: newId('file'),
+    version: 1,
+    fileName,
+    transactionCount,
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+// Fields a client may change on an existing EMI or savings goal
+export const EMI_UPDATE_FIELDS = ['name', 'amount', 'dueDate', 'totalAmount', 'paid', 'status'] as const;
+export const SAVINGS_GOAL_UPDATE_FIELDS = ['name', 'targetAmount', 'currentAmount', 'deadline', 'status'] as const;
+
+export type EmiUpdate = Partial<Pick<Emi, typeof EMI_UPDATE_FIELDS[number]>>;
+export type SavingsGoalUpdate = Partial<Pick<SavingsGoal, typeof SAVINGS_GOAL_UPDATE_FIELDS[number]>>;
+
+// Shared checks for the partial-update validators below. Each records a field error
+// or writes the normalized value into `changes`.
+function checkUpdateBody(input: any, allowed: readonly string[], errors: FieldError[]) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors.push({ field: 'body', message: 'Expected a JSON object' });
+    return false;
+  }
+
+  for (const field of Object.keys(input)) {
+    if (!allowed.includes(field)) {
+      errors.push({ field, message: 'Field cannot be updated' });
+    }
+  }
+
+  return true;
+}
+
+// The fields of a create payload that were filled in, with an error for each missing
+// required one. Blank optional fields fall back to their defaults.
+function readCreateBody(input: any, required: readonly string[], errors: FieldError[]): Record<string, any> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors.push({ field: 'body', message: 'Expected a JSON object' });
+    return {};
+  }
+
+  const body = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined && value !== null && value !== ''),
+  );
+
+  for (const field of required) {
+    if (!(field in body)) {
+      errors.push({ field, message: 'Required' });
+    }
+  }
+
+  return body;
+}
+
+function readDate(input: any, field: string, changes: Record<string, any>, errors: FieldError[]) {
+  if (!(field in input)) return;
+  if (typeof input[field] !== 'string' || isNaN(new Date(input[field]).getTime())) {
+    errors.push({ field, message: 'Must be a valid date' });
+  } else {
+    changes[field] = input[field];
+  }
+}
+
+function readText(input: any, field: string, changes: Record<string, any>, errors: FieldError[]) {
+  if (!(field in input)) return;
+  if (typeof input[field] !== 'string' || input[field].trim() === '') {
+    errors.push({ field, message: 'Must be a non-empty string' });
+  } else {
+    changes[field] = input[field].trim();
+  }
+}
+
+// Numbers may arrive as numeric strings from form inputs; they are coerced here.
+// The whole string must be a number, so "12abc" is rejected rather than read as 12.
+function readAmount(
+  input: any,
+  field: string,
+  changes: Record<string, any>,
+  errors: FieldError[],
+  { allowZero }: { allowZero: boolean },
+) {
+  if (!(field in input)) return;
+  const value = input[field];
+  const amount = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')
+    ? Number(value)
+    : NaN;
+  if (!isFinite(amount) || amount < 0 || (!allowZero && amount === 0)) {
+    errors.push({ field, message: allowZero ? 'Must be a number of at least 0' : 'Must be a positive number' });
+  } else {
+    changes[field] = amount;
+  }
+}
+
+// Validate a partial transaction update.
+// Returns the normalized changes, or a list of field-level errors.
+export function validateTransactionUpdate(input: any) {
+  const errors: FieldError[] = [];
+  const changes: TransactionUpdate = {};
+
+  if (!checkUpdateBody(input, TRANSACTION_UPDATE_FIELDS, errors)) {
+    return { errors, changes };
+  }
+
+  readDate(input, 'date', changes, errors);
+  readText(input, 'description', changes, errors);
+  readText(input, 'category', changes, errors);
+  readAmount(input, 'amount', changes, errors, { allowZero: false });
+
+  if ('type' in input) {
+    if (!TRANSACTION_TYPES.includes(input.type)) {
+      errors.push({ field: 'type', message: "Must be 'Income' or 'Expense'" });
+    } else {
+      changes.type = input.type;
+    }
+  }
+
+  if ('source' in input) {
+    if (input.source !== null && typeof input.source !== 'string') {
+      errors.push({ field: 'source', message: 'Must be a string or null' });
+    } else {
+      changes.source = input.source ? input.source.trim() : null;
+    }
+  }
+
+  return { errors, changes };
+}
+
+// Validate a partial EMI update against the EMI it will be applied to,
+// so `paid` can be checked against the resulting `totalAmount`.
+export function validateEmiUpdate(input: any, current: Emi) {
+  const errors: FieldError[] = [];
+  const changes: EmiUpdate = {};
+
+  if (!checkUpdateBody(input, EMI_UPDATE_FIELDS, errors)) {
+    return { errors, changes };
+  }
+
+  readText(input, 'name', changes, errors);
+  readAmount(input, 'amount', changes, errors, { allowZero: false });
+  readDate(input, 'dueDate', changes, errors);
+  readAmount(input, 'totalAmount', changes, errors, { allowZero: true });
+  readAmount(input, 'paid', changes, errors, { allowZero: true });
+
+  if ('status' in input) {
+    if (!EMI_STATUSES.includes(input.status)) {
+      errors.push({ field: 'status', message: `Must be one of ${EMI_STATUSES.map((s) => `'${s}'`).join(', ')}` });
+    } else {
+      changes.status = input.status;
+    }
+  }
+
+  // A total of 0 means the loan total is unknown, so there is nothing to compare against
+  const totalAmount = changes.totalAmount ?? current.totalAmount;
+  const paid = changes.paid ?? current.paid;
+  if (('paid' in changes || 'totalAmount' in changes) && totalAmount > 0 && paid > totalAmount) {
+    errors.push({ field: 'paid', message: 'Cannot exceed the total amount' });
+  }
+
+  return { errors, changes };
+}
+
+// Validate a partial savings goal update
+export function validateSavingsGoalUpdate(input: any) {
+  const errors: FieldError[] = [];
+  const changes: SavingsGoalUpdate = {};
+
+  if (!checkUpdateBody(input, SAVINGS_GOAL_UPDATE_FIELDS, errors)) {
+    return { errors, changes };
+  }
+
+  readText(input, 'name', changes, errors);
+  readAmount(input, 'targetAmount', changes, errors, { allowZero: false });
+  readAmount(input, 'currentAmount', changes, errors, { allowZero: true });
+  readDate(input, 'deadline', changes, errors);
+  readText(input, 'status', changes, errors);
+
+  return { errors, changes };
+}
+
+// Validate a partial update of the assistant settings. Any field may be null to go
+// back to the deployment default.
+export function validateChatSettings(input: any) {
+  const errors: FieldError[] = [];
+  const changes: Partial<ChatSettings> = {};
+
+  if (!checkUpdateBody(input, CHAT_SETTINGS_FIELDS, errors)) {
+    return { errors, changes };
+  }
+
+  if ('provider' in input) {
+    if (input.provider !== null && !LLM_PROVIDERS.includes(input.provider)) {
+      errors.push({ field: 'provider', message: `Must be null or one of ${LLM_PROVIDERS.map((p) => `'${p}'`).join(', ')}` });
+    } else {
+      changes.provider = input.provider;
+    }
+  }
+
+  if ('model' in input) {
+    if (input.model !== null && (typeof input.model !== 'string' || input.model.trim().length > 100)) {
+      errors.push({ field: 'model', message: 'Must be null or a model name of at most 100 characters' });
+    } else {
+      changes.model = input.model?.trim() || null;
+    }
+  }
+
+  for (const [field, range, integer] of [
+    ['temperature', TEMPERATURE_RANGE, false],
+    ['maxTokens', MAX_TOKENS_RANGE, true],
+  ] as const) {
+    if (!(field in input)) continue;
+    if (input[field] === null) {
+      changes[field] = null;
+      continue;
+    }
+    const value = typeof input[field] === 'number' || typeof input[field] === 'string'
+      ? parseFloat(String(input[field]))
+      : NaN;
+    if (!isFinite(value) || value < range.min || value > range.max || (integer && !Number.isInteger(value))) {
+      errors.push({ field, message: `Must be null or ${integer ? 'a whole number' : 'a number'} from ${range.min} to ${range.max}` });
+    } else {
+      changes[field] = value;
+    }
+  }
+
+  return { errors, changes };
+}
+
+// Validate a conversation rename. An empty title goes back to naming it after the first question.
+export function validateConversationUpdate(input: any) {
+  const errors: FieldError[] = [];
+  const changes: Partial<Pick<Conversation, 'title'>> = {};
+
+  if (!checkUpdateBody(input, CONVERSATION_UPDATE_FIELDS, errors)) {
+    return { errors, changes };
+  }
+
+  if ('title' in input) {
+    if (input.title !== null && (typeof input.title !== 'string' || input.title.trim().length > MAX_CONVERSATION_TITLE_LENGTH)) {
+      errors.push({ field: 'title', message: `Must be null or at most ${MAX_CONVERSATION_TITLE_LENGTH} characters` });
+    } else {
+      changes.title = input.title?.trim() || null;
+    }
+  }
+
+  return { errors, changes };
+}
@@ -0,0 +1,146 @@
+// Filtering, sorting and pagination for transaction lists.
+// Pure functions so they can run on whatever set of records the store returned.
+
+import type { Transaction } from "./models.tsx";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export type TransactionSort = 'date' | '-date' | 'amount' | '-amount';
+
+export interface TransactionQuery {
+  year?: string;
+  month?: string;      // 0-based month, as sent by the month pickers
+  type?: string;
+  from?: string;       // inclusive, YYYY-MM-DD
+  to?: string;         // inclusive, YYYY-MM-DD
+  minAmount?: number;
+  maxAmount?: number;
+  categories?: string[];
+  q?: string;
+  sort?: TransactionSort;
+}
+
+// Read a TransactionQuery from Hono request query parameters
+export function parseTransactionQuery(
+  query: (name: string) => string | undefined,
+  queries: (name: string) => string[] | undefined,
+) {
+  const errors: { field: string; message: string }[] = [];
+  const parsed: TransactionQuery = {
+    year: query('year') || undefined,
+    month: query('month') || undefined,
+    type: query('type') || undefined,
+    q: query('q')?.trim() || undefined,
+  };
+
+  for (const field of ['from', 'to'] as const) {
+    const value = query(field);
+    if (value) {
+      if (isNaN(new Date(value).getTime())) {
+        errors.push({ field, message: 'Must be a valid date (YYYY-MM-DD)' });
+      } else {
+        parsed[field] = value;
+      }
+    }
+  }
+
+  for (const field of ['minAmount', 'maxAmount'] as const) {
+    const value = query(field);
+    if (value) {
+      const amount = parseFloat(value);
+      if (!isFinite(amount)) {
+        errors.push({ field, message: 'Must be a number' });
+      } else {
+        parsed[field] = amount;
+      }
+    }
+  }
+
+  // Accept both `category=Food&category=Travel` and `category=Food,Travel`
+  const categories = (queries('category') || [])
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (categories.length > 0) {
+    parsed.categories = categories;
+  }
+
+  const sort = query('sort');
+  if (sort) {
+    if (!['date', '-date', 'amount', '-amount'].includes(sort)) {
+      errors.push({ field: 'sort', message: "Must be one of 'date', '-date', 'amount', '-amount'" });
+    } else {
+      parsed.sort = sort as TransactionSort;
+    }
+  }
+
+  return { errors, query: parsed };
+}
+
+// Apply every filter in the query and sort the result (chronological by default)
+export function filterTransactions(transactions: Transaction[], query: TransactionQuery) {
+  const from = query.from ? new Date(query.from).getTime() : null;
+  const to = query.to ? new Date(query.to).getTime() : null;
+  const categories = query.categories?.map((category) => category.toLowerCase());
+  const search = query.q?.toLowerCase();
+
+  const filtered = transactions.filter((t) => {
+    const date = new Date(t.date);
+
+    if (query.year && date.getFullYear().toString() !== query.year) return false;
+    if (query.month && date.getMonth() !== parseInt(query.month)) return false;
+    if (query.type && t.type !== query.type) return false;
+    if (from !== null && date.getTime() < from) return false;
+    if (to !== null && date.getTime() > to) return false;
+    if (query.minAmount !== undefined && t.amount < query.minAmount) return false;
+    if (query.maxAmount !== undefined && t.amount > query.maxAmount) return false;
+    if (categories && !categories.includes(String(t.category).toLowerCase())) return false;
+
+    if (search) {
+      const haystack = [t.description, t.category, t.source]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+
+    return true;
+  });
+
+  const sort = query.sort || 'date';
+  const direction = sort.startsWith('-') ? -1 : 1;
+  const field = sort.replace('-', '');
+
+  return filtered.sort((a, b) => {
+    const difference = field === 'amount'
+      ? a.amount - b.amount
+      : new Date(a.date).getTime() - new Date(b.date).getTime();
+    // Fall back to id so pages stay stable when values tie
+    return direction * (difference || String(a.id).localeCompare(String(b.id)));
+  });
+}
+
+// Cursors are opaque to clients; internally they encode the offset of the next page
+export function encodeCursor(offset: number) {
+  return btoa(`offset:${offset}`);
+}
+
+export function decodeCursor(cursor: string) {
+  try {
+    const match = atob(cursor).match(/^offset:(\d+)$/);
+    return match ? parseInt(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Slice one page out of a sorted list
+export function paginate<T>(items: T[], limit: number, offset: number) {
+  const page = items.slice(offset, offset + limit);
+  const nextOffset = offset + page.length;
+  return {
+    items: page,
+    nextCursor: nextOffset < items.length ? encodeCursor(nextOffset) : null,
+  };
+}
@@ -0,0 +1,401 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import * as kv from "./kv_store.tsx";
+import { chunk, likePrefix, readAllPages } from "./kv_paging.tsx";
+import {
+  DEFAULT_USER_SETTINGS,
+  type Transaction,
+  type Emi,
+  type SavingsGoal,
+  type FileRecord,
+  type AuditEntry,
+  type TrashItem,
+  type ErasureCounts,
+  type UserSettings,
+  type Conversation,
+} from "./models.tsx";
+
+/*
+Record layout in the KV store. Every record lives under its own key so writes
+never rewrite a user's whole history:
+
+  file:{userId}:{fileId}                       -> file metadata
+  txn:{userId}:{fileId}:{id}                   -> transaction
+  emi:{userId}:{fileId}:{id}                   -> EMI
+  goal:{userId}:{fileId}:{id}                  -> savings goal
+
+Secondary indexes store the primary key as their value:
+
+  ref:{userId}:{id}                            -> primary key of a record by id
+  txnMonth:{userId}:{fileId}:{yyyy-mm}:{id}    -> transaction key, bucketed by month
+
+The `{kind}:{userId}:{fileId}:` prefix doubles as the per-file index. Records
+that were created without a file use the `nofile` segment.
+
+The audit log is append-only, one key per entry:
+
+  audit:{userId}:{isoTimestamp}:{id}           -> audit entry
+
+Deleted records wait in the trash until restored or purged. A deleted file is
+one trash item carrying the transactions, EMIs and goals deleted with it:
+
+  trash:{userId}:{trashId}                     -> trash item
+
+Per-user preferences live in one document:
+
+  settings:{userId}                            -> user settings
+
+Saved assistant conversations are one document each, messages included, and
+have a ref like records do:
+
+  conv:{userId}:{fileId}:{id}                  -> conversation
+
+A deleted file's conversations stay in place while the file is in the trash, so
+restoring it brings them back; they go when the file is purged.
+*/
+
+export type RecordKind = 'txn' | 'emi' | 'goal';
+
+// Record type stored under each kind
+export type RecordOf<K extends RecordKind> =
+  K extends 'txn' ? Transaction :
+  K extends 'emi' ? Emi :
+  SavingsGoal;
+
+const NO_FILE = 'nofile';
+
+const fileSegment = (fileId: string | null | undefined) => fileId || NO_FILE;
+
+// Month bucket (yyyy-mm) used by the transaction month index
+export function monthOf(date: string) {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) {
+    return 'undated';
+  }
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export const keys = {
+  profile: (userId: string) => `user:${userId}`,
+  activeFile: (userId: string) => `activeFile:${userId}`,
+  settings: (userId: string) => `settings:${userId}`,
+  file: (userId: string, fileId: string) => `file:${userId}:${fileId}`,
+  filePrefix: (userId: string) => `file:${userId}:`,
+  record: (kind: RecordKind, userId: string, record: any) =>
+    `${kind}:${userId}:${fileSegment(record.fileId)}:${record.id}`,
+  recordPrefix: (kind: RecordKind, userId: string, fileId?: string | null) =>
+    fileId === undefined ? `${kind}:${userId}:` : `${kind}:${userId}:${fileSegment(fileId)}:`,
+  ref: (userId: string, id: string) => `ref:${userId}:${id}`,
+  txnMonth: (userId: string, txn: any) =>
+    `txnMonth:${userId}:${fileSegment(txn.fileId)}:${monthOf(txn.date)}:${txn.id}`,
+  txnMonthPrefix: (userId: string, fileId: string | null, monthPrefix: string) =>
+    `txnMonth:${userId}:${fileSegment(fileId)}:${monthPrefix}`,
+  audit: (userId: string, entry: AuditEntry) => `audit:${userId}:${entry.at}:${entry.id}`,
+  auditPrefix: (userId: string) => `audit:${userId}:`,
+  trash: (userId: string, trashId: string) => `trash:${userId}:${trashId}`,
+  trashPrefix: (userId: string) => `trash:${userId}:`,
+  conversation: (userId: string, conversation: Conversation) =>
+    `conv:${userId}:${conversation.fileId}:${conversation.id}`,
+  conversationPrefix: (userId: string, fileId?: string) =>
+    fileId === undefined ? `conv:${userId}:` : `conv:${userId}:${fileId}:`,
+};
+
+export type Entry = [string, any];
+
+// All key/value pairs (primary record plus its indexes) for a record
+export function recordEntries(kind: RecordKind, userId: string, record: any): Entry[] {
+  const primaryKey = keys.record(kind, userId, record);
+  const entries: Entry[] = [
+    [primaryKey, record],
+    [keys.ref(userId, record.id), primaryKey],
+  ];
+
+  if (kind === 'txn') {
+    entries.push([keys.txnMonth(userId, record), primaryKey]);
+  }
+
+  return entries;
+}
+
+export function fileEntries(userId: string, file: FileRecord): Entry[] {
+  return [[keys.file(userId, file.id), file]];
+}
+
+export function auditEntries(userId: string, ...entries: AuditEntry[]): Entry[] {
+  return entries.map((entry) => [keys.audit(userId, entry), entry]);
+}
+
+export function trashEntries(userId: string, item: TrashItem): Entry[] {
+  return [[keys.trash(userId, item.id), item]];
+}
+
+export function conversationEntries(userId: string, conversation: Conversation): Entry[] {
+  const primaryKey = keys.conversation(userId, conversation);
+  return [
+    [primaryKey, conversation],
+    [keys.ref(userId, conversation.id), primaryKey],
+  ];
+}
+
+export function conversationKeys(userId: string, conversation: Conversation) {
+  return conversationEntries(userId, conversation).map(([key]) => key);
+}
+
+// Every key occupied by a record, used when deleting or moving it
+export function recordKeys(kind: RecordKind, userId: string, record: any) {
+  return recordEntries(kind, userId, record).map(([key]) => key);
+}
+
+// Write a set of entries with a single upsert
+export async function writeEntries(entries: Entry[]) {
+  if (entries.length === 0) return;
+  await kv.mset(entries.map(([key]) => key), entries.map(([, value]) => value));
+}
+
+// Delete keys a chunk at a time, since each delete lists its keys in the request URL
+export async function deleteKeys(keyList: string[]) {
+  for (const keyChunk of chunk(keyList)) {
+    await kv.mdel(keyChunk);
+  }
+}
+
+// Values for a list of keys, read a chunk at a time like deleteKeys
+export async function getMany(keyList: string[]): Promise<any[]> {
+  const values: any[] = [];
+  for (const keyChunk of chunk(keyList)) {
+    values.push(...await kv.mget(keyChunk));
+  }
+  return values;
+}
+
+// The table behind kv_store.tsx. That file is generated and its getByPrefix reads a
+// single capped page, so prefix reads query the table here, a page at a time.
+const KV_TABLE = "kv_store_2ee15a73";
+
+const db = () => createClient(
+  Deno.env.get("SUPABASE_URL") ?? '',
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? '',
+);
+
+// Every value stored under a key prefix
+export async function getByPrefix(prefix: string): Promise<any[]> {
+  const supabase = db();
+  const pattern = likePrefix(prefix);
+  return await readAllPages(async (from, to) => {
+    const { data, error } = await supabase
+      .from(KV_TABLE)
+      .select("value")
+      .like("key", pattern)
+      .order("key")
+      .range(from, to);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data?.map((row) => row.value) ?? [];
+  });
+}
+
+// List records of a kind, optionally limited to one file
+export async function listRecords<K extends RecordKind>(kind: K, userId: string, fileId?: string | null): Promise<RecordOf<K>[]> {
+  return await getByPrefix(keys.recordPrefix(kind, userId, fileId));
+}
+
+// List a file's transactions for a month prefix (`yyyy-` or `yyyy-mm`) via the month index
+export async function listTransactionsByMonth(userId: string, fileId: string | null, monthPrefix: string): Promise<Transaction[]> {
+  const primaryKeys = await getByPrefix(keys.txnMonthPrefix(userId, fileId, monthPrefix));
+  return await getMany(primaryKeys);
+}
+
+// Look up a single record by id through the ref index
+export async function getRecord<K extends RecordKind>(kind: K, userId: string, id: string): Promise<RecordOf<K> | null> {
+  const primaryKey = await kv.get(keys.ref(userId, id));
+  if (!primaryKey || !primaryKey.startsWith(`${kind}:`)) {
+    return null;
+  }
+  return (await kv.get(primaryKey)) || null;
+}
+
+// Save a record, moving its index keys if the file or date changed.
+// `extra` entries (e.g. the audit entry) are written in the same upsert.
+export async function saveRecord<K extends RecordKind>(
+  kind: K,
+  userId: string,
+  record: RecordOf<K>,
+  previous?: RecordOf<K>,
+  extra: Entry[] = [],
+) {
+  const entries = recordEntries(kind, userId, record);
+  await writeEntries([...entries, ...extra]);
+
+  if (previous) {
+    const current = new Set(entries.map(([key]) => key));
+    await deleteKeys(recordKeys(kind, userId, previous).filter((key) => !current.has(key)));
+  }
+}
+
+// Remove a record and its indexes, writing any `extra` entries first
+export async function removeRecord<K extends RecordKind>(kind: K, userId: string, record: RecordOf<K>, extra: Entry[] = []) {
+  await writeEntries(extra);
+  await deleteKeys(recordKeys(kind, userId, record));
+}
+
+export async function listFiles(userId: string): Promise<FileRecord[]> {
+  return await getByPrefix(keys.filePrefix(userId));
+}
+
+export async function getFile(userId: string, fileId: string): Promise<FileRecord | null> {
+  return (await kv.get(keys.file(userId, fileId))) || null;
+}
+
+// Stored settings merged over the defaults, so fields added later read as defaults
+export async function getSettings(userId: string): Promise<UserSettings> {
+  const stored: UserSettings | null = await kv.get(keys.settings(userId));
+  return {
+    ...DEFAULT_USER_SETTINGS,
+    ...stored,
+    chat: { ...DEFAULT_USER_SETTINGS.chat, ...stored?.chat },
+  };
+}
+
+// Saved conversations, optionally limited to one file
+export async function listConversations(userId: string, fileId?: string): Promise<Conversation[]> {
+  return await getByPrefix(keys.conversationPrefix(userId, fileId));
+}
+
+export async function getConversation(userId: string, id: string): Promise<Conversation | null> {
+  const primaryKey = await kv.get(keys.ref(userId, id));
+  if (!primaryKey || !primaryKey.startsWith('conv:')) {
+    return null;
+  }
+  return (await kv.get(primaryKey)) || null;
+}
+
+export async function listAudit(userId: string): Promise<AuditEntry[]> {
+  return await getByPrefix(keys.auditPrefix(userId));
+}
+
+export async function listTrash(userId: string): Promise<TrashItem[]> {
+  return await getByPrefix(keys.trashPrefix(userId));
+}
+
+export async function getTrashItem(userId: string, trashId: string): Promise<TrashItem | null> {
+  return (await kv.get(keys.trash(userId, trashId))) || null;
+}
+
+// Everything that belongs to one uploaded file
+export async function listFileContents(userId: string, fileId: string) {
+  const [transactions, emis, goals] = await Promise.all([
+    listRecords('txn', userId, fileId),
+    listRecords('emi', userId, fileId),
+    listRecords('goal', userId, fileId),
+  ]);
+  return { transactions, emis, goals };
+}
+
+// ==================== LEGACY MIGRATION ====================
+
+// Users whose legacy array documents have already been checked in this instance
+const migratedUsers = new Set<string>();
+
+function legacyKeysFor(userId: string) {
+  return [
+    `transactions:${userId}`,
+    `emis:${userId}`,
+    `savings:${userId}`,
+    `files:${userId}`,
+  ];
+}
+
+// One-time migration from the old whole-array documents
+// (`transactions:{userId}`, `emis:{userId}`, `savings:{userId}`, `files:{userId}`)
+// to one key per record. Safe to run more than once: record ids are preserved,
+// so a retry after a partial failure rewrites the same keys.
+export async function migrateLegacyData(userId: string) {
+  if (migratedUsers.has(userId)) return;
+
+  const legacyKeys = legacyKeysFor(userId);
+  const [transactions, emis, savings, files] = await Promise.all(legacyKeys.map((key) => kv.get(key)));
+
+  if (transactions || emis || savings || files) {
+    const entries: Entry[] = [
+      ...(files || []).flatMap((file: any) => fileEntries(userId, file)),
+      ...(transactions || []).flatMap((txn: any) => recordEntries('txn', userId, txn)),
+      ...(emis || []).flatMap((emi: any) => recordEntries('emi', userId, emi)),
+      ...(savings || []).flatMap((goal: any) => recordEntries('goal', userId, goal)),
+    ];
+
+    await writeEntries(entries);
+    await deleteKeys(legacyKeys);
+    console.log(`Migrated legacy data for user ${userId}: ${entries.length} keys written`);
+  }
+
+  migratedUsers.add(userId);
+}
+
+// ==================== ACCOUNT ERASURE ====================
+
+// Per-user prefixes that must be empty once an account is erased
+function userPrefixes(userId: string) {
+  return [
+    keys.filePrefix(userId),
+    keys.recordPrefix('txn', userId),
+    keys.recordPrefix('emi', userId),
+    keys.recordPrefix('goal', userId),
+    `ref:${userId}:`,
+    `txnMonth:${userId}:`,
+    keys.auditPrefix(userId),
+    keys.trashPrefix(userId),
+    keys.conversationPrefix(userId),
+  ];
+}
+
+// Delete every key belonging to a user. getByPrefix only returns values, so the
+// keys are rebuilt from the stored records and index values.
+export async function eraseUserData(userId: string): Promise<{ counts: ErasureCounts; remaining: number }> {
+  const [files, transactions, emis, goals, audit, trash, conversations, refs] = await Promise.all([
+    listFiles(userId),
+    listRecords('txn', userId),
+    listRecords('emi', userId),
+    listRecords('goal', userId),
+    listAudit(userId),
+    listTrash(userId),
+    listConversations(userId),
+    getByPrefix(`ref:${userId}:`) as Promise<string[]>,
+  ]);
+
+  const keySet = new Set<string>([
+    keys.profile(userId),
+    keys.activeFile(userId),
+    keys.settings(userId),
+    ...legacyKeysFor(userId),
+    ...files.map((file) => keys.file(userId, file.id)),
+    ...transactions.flatMap((txn) => recordKeys('txn', userId, txn)),
+    ...emis.flatMap((emi) => recordKeys('emi', userId, emi)),
+    ...goals.flatMap((goal) => recordKeys('goal', userId, goal)),
+    ...audit.map((entry) => keys.audit(userId, entry)),
+    ...trash.map((item) => keys.trash(userId, item.id)),
+    ...conversations.flatMap((conversation) => conversationKeys(userId, conversation)),
+    // A ref's value is its record's primary key, which ends in the record id
+    ...refs.map((primaryKey) => keys.ref(userId, primaryKey.slice(primaryKey.lastIndexOf(':') + 1))),
+  ]);
+
+  await deleteKeys(Array.from(keySet));
+  migratedUsers.delete(userId);
+
+  // Anything left (e.g. a month index entry whose record was already gone) is reported, not hidden
+  const leftovers = await Promise.all(userPrefixes(userId).map((prefix) => getByPrefix(prefix)));
+  const remaining = leftovers.reduce((sum, values) => sum + values.length, 0);
+
+  return {
+    counts: {
+      files: files.length,
+      transactions: transactions.length,
+      emis: emis.length,
+      savingsGoals: goals.length,
+      auditEntries: audit.length,
+      trashItems: trash.length,
+      conversations: conversations.length,
+      keys: keySet.size,
+    },
+    remaining,
+  };
+}
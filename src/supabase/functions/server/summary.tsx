@@ -0,0 +1,97 @@
+// Dashboard aggregations over a set of transactions.
+// Pure so the same numbers can be produced wherever the transactions are loaded.
+
+import type { Transaction, TransactionSummary } from "./models.tsx";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function toBreakdown(groups: Map<string, { amount: number; count: number }>, total: number) {
+  return Array.from(groups.entries())
+    .map(([name, { amount, count }]) => ({
+      name,
+      amount: round(amount),
+      count,
+      share: total > 0 ? round((amount / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+function addTo(groups: Map<string, { amount: number; count: number }>, key: string, amount: number) {
+  const group = groups.get(key) || { amount: 0, count: 0 };
+  group.amount += amount;
+  group.count += 1;
+  groups.set(key, group);
+}
+
+export function summarizeTransactions(transactions: Transaction[]): TransactionSummary {
+  let income = 0;
+  let expense = 0;
+  let incomeCount = 0;
+  let expenseCount = 0;
+  let largestExpense: Transaction | null = null;
+
+  const months = new Map<string, { income: number; expense: number }>();
+  const categories = new Map<string, { amount: number; count: number }>();
+  const sources = new Map<string, { amount: number; count: number }>();
+
+  for (const t of transactions) {
+    const date = new Date(t.date);
+    const month = isNaN(date.getTime())
+      ? null
+      : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const bucket = month ? (months.get(month) || { income: 0, expense: 0 }) : null;
+
+    if (t.type === 'Income') {
+      income += t.amount;
+      incomeCount += 1;
+      addTo(sources, t.source || t.category || 'Other', t.amount);
+      if (bucket) bucket.income += t.amount;
+    } else if (t.type === 'Expense') {
+      expense += t.amount;
+      expenseCount += 1;
+      addTo(categories, t.category || 'Others', t.amount);
+      if (bucket) bucket.expense += t.amount;
+      if (!largestExpense || t.amount > largestExpense.amount) {
+        largestExpense = t;
+      }
+    }
+
+    if (month && bucket) {
+      months.set(month, bucket);
+    }
+  }
+
+  const monthly = Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, totals]) => ({
+      month,
+      income: round(totals.income),
+      expense: round(totals.expense),
+      net: round(totals.income - totals.expense),
+    }));
+
+  return {
+    totals: {
+      income: round(income),
+      expense: round(expense),
+      net: round(income - expense),
+      incomeCount,
+      expenseCount,
+    },
+    savingsRate: income > 0 ? round(((income - expense) / income) * 100) : 0,
+    monthly,
+    byCategory: toBreakdown(categories, expense),
+    bySource: toBreakdown(sources, income),
+    largestExpense,
+  };
+}
+
+// Distinct years present in a set of transactions, newest first
+export function transactionYears(transactions: Transaction[]) {
+  return Array.from(new Set(
+    transactions
+      .map((t) => new Date(t.date))
+      .filter((date) => !isNaN(date.getTime()))
+      .map((date) => date.getFullYear().toString())
+  )).sort((a, b) => parseInt(b) - parseInt(a));
+}
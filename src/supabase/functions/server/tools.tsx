@@ -0,0 +1,288 @@
+// Ledger tools the finance assistant can call while answering. Each tool runs on the
+// stored records of the file being discussed and reports the rows it read, so the
+// answer can cite them.
+
+import { filterTransactions, type TransactionQuery } from "./query.tsx";
+import { emiStatus, emiRemaining, goalProgress } from "./financial-context.tsx";
+import type { ChatCitation, Emi, SavingsGoal, Transaction } from "./models.tsx";
+
+// Most rows list_transactions returns, and most rows one tool call cites
+const MAX_LISTED_ROWS = 50;
+const MAX_CITED_ROWS = 100;
+
+// Most groups sum_transactions returns, largest first
+const MAX_GROUPS = 25;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const filterProperties = {
+  type: { type: 'string', enum: ['Income', 'Expense'], description: 'Only income or only expenses' },
+  category: { type: 'string', description: 'Category name, case-insensitive' },
+  merchant: { type: 'string', description: 'Text to look for in the description or source, e.g. a merchant such as "Swiggy"' },
+  from: { type: 'string', description: 'First date to include, YYYY-MM-DD' },
+  to: { type: 'string', description: 'Last date to include, YYYY-MM-DD' },
+};
+
+// Function definitions in the OpenAI tools format
+export const LEDGER_TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'sum_transactions',
+      description: 'Total and count of the transactions matching the filters, optionally grouped by category, merchant or month. Without a type, income and expense are totalled separately.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...filterProperties,
+          group_by: { type: 'string', enum: ['none', 'category', 'merchant', 'month'], description: 'How to break the total down (default none)' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_transactions',
+      description: `Individual transactions matching the filters, at most ${MAX_LISTED_ROWS}.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          ...filterProperties,
+          sort: { type: 'string', enum: ['date', '-date', 'amount', '-amount'], description: 'Sort order; a leading minus sorts descending (default -date)' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_LISTED_ROWS },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'emi_schedule',
+      description: 'Every EMI with its monthly amount, due date, status, amount paid and what is left to pay.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['upcoming', 'overdue', 'paid'], description: 'Only EMIs with this status' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'goal_status',
+      description: 'Savings goals with progress, amount remaining and the monthly saving needed to meet the deadline.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Only goals whose name contains this text' },
+        },
+      },
+    },
+  },
+];
+
+export interface LedgerData {
+  transactions: Transaction[];
+  emis: Emi[];
+  goals: SavingsGoal[];
+}
+
+interface ToolOutput {
+  result: unknown;
+  citations: ChatCitation[];
+}
+
+// Citations for the rows an answer read. Also used for the answers in intents.tsx.
+const citeTransaction = (t: Transaction): ChatCitation => ({
+  kind: 'txn',
+  id: t.id,
+  label: t.description,
+  date: t.date,
+  amount: t.amount,
+});
+
+export const citeTransactions = (rows: Transaction[]) => rows.slice(0, MAX_CITED_ROWS).map(citeTransaction);
+
+export const citeEmi = (emi: Emi): ChatCitation => ({ kind: 'emi', id: emi.id, label: emi.name, date: emi.dueDate, amount: emi.amount });
+
+export const citeGoal = (goal: SavingsGoal): ChatCitation => ({ kind: 'goal', id: goal.id, label: goal.name, date: goal.deadline, amount: goal.targetAmount });
+
+// Turn the shared filter arguments into a TransactionQuery
+function readFilters(args: any) {
+  const query: TransactionQuery = {};
+
+  if (args.type !== undefined) {
+    if (args.type !== 'Income' && args.type !== 'Expense') return { error: "type must be 'Income' or 'Expense'", query };
+    query.type = args.type;
+  }
+  for (const field of ['from', 'to'] as const) {
+    if (args[field] !== undefined) {
+      if (typeof args[field] !== 'string' || isNaN(new Date(args[field]).getTime())) {
+        return { error: `${field} must be a date in YYYY-MM-DD form`, query };
+      }
+      query[field] = args[field];
+    }
+  }
+  if (typeof args.category === 'string' && args.category.trim()) {
+    query.categories = [args.category.trim()];
+  }
+  if (typeof args.merchant === 'string' && args.merchant.trim()) {
+    query.q = args.merchant.trim();
+  }
+
+  return { error: null, query };
+}
+
+// Income and expense totals of a set of rows, kept apart: added together they mean nothing
+function totalsOf(rows: Transaction[], type: TransactionQuery['type']) {
+  const sum = (matching: Transaction[]) => round(matching.reduce((total, t) => total + t.amount, 0));
+  if (type) return { total: sum(rows), count: rows.length };
+  const income = rows.filter((t) => t.type === 'Income');
+  const expense = rows.filter((t) => t.type === 'Expense');
+  return { income: sum(income), expense: sum(expense), count: rows.length };
+}
+
+function sumTransactions(data: LedgerData, args: any): ToolOutput {
+  const { error, query } = readFilters(args);
+  if (error) return { result: { error }, citations: [] };
+
+  const rows = filterTransactions(data.transactions, query);
+  const groupBy = args.group_by || 'none';
+  const groups = new Map<string, Transaction[]>();
+
+  if (groupBy !== 'none') {
+    for (const t of rows) {
+      const key = groupBy === 'category'
+        ? t.category
+        : groupBy === 'merchant'
+          ? t.description
+          : t.date.slice(0, 7);
+      groups.set(key, [...(groups.get(key) || []), t]);
+    }
+  }
+
+  // Largest first, by total when one type is asked for, else by income plus expense
+  const size = (totals: ReturnType<typeof totalsOf>) =>
+    'total' in totals ? totals.total : totals.income + totals.expense;
+
+  return {
+    result: {
+      ...totalsOf(rows, query.type),
+      groups: groupBy === 'none'
+        ? undefined
+        : Array.from(groups.entries())
+          .map(([key, groupRows]) => ({ [groupBy]: key, ...totalsOf(groupRows, query.type) }))
+          .sort((a, b) => size(b) - size(a))
+          .slice(0, MAX_GROUPS),
+    },
+    citations: citeTransactions(rows),
+  };
+}
+
+function listTransactions(data: LedgerData, args: any): ToolOutput {
+  const { error, query } = readFilters(args);
+  if (error) return { result: { error }, citations: [] };
+
+  query.sort = ['date', '-date', 'amount', '-amount'].includes(args.sort) ? args.sort : '-date';
+  const limit = Math.min(MAX_LISTED_ROWS, Math.max(1, parseInt(args.limit) || 20));
+  const rows = filterTransactions(data.transactions, query);
+  const listed = rows.slice(0, limit);
+
+  return {
+    result: {
+      matching: rows.length,
+      transactions: listed.map((t) => ({
+        id: t.id,
+        date: t.date,
+        description: t.description,
+        category: t.category,
+        amount: t.amount,
+        type: t.type,
+      })),
+    },
+    citations: listed.map(citeTransaction),
+  };
+}
+
+function emiSchedule(data: LedgerData, args: any): ToolOutput {
+  const now = Date.now();
+  const emis = data.emis
+    .map((emi) => {
+      const status = emiStatus(emi, now);
+      const remaining = emiRemaining(emi);
+      return { emi, status, remaining };
+    })
+    .filter(({ status }) => !args.status || status === args.status);
+
+  return {
+    result: {
+      totalMonthly: round(emis.filter(({ status }) => status !== 'paid').reduce((sum, { emi }) => sum + emi.amount, 0)),
+      emis: emis.map(({ emi, status, remaining }) => ({
+        id: emi.id,
+        name: emi.name,
+        monthlyAmount: emi.amount,
+        dueDate: emi.dueDate,
+        status,
+        paid: emi.paid,
+        totalAmount: emi.totalAmount || null,
+        remaining,
+        instalmentsLeft: remaining !== null && emi.amount > 0 ? Math.ceil(remaining / emi.amount) : null,
+      })),
+    },
+    citations: emis.map(({ emi }) => citeEmi(emi)),
+  };
+}
+
+function goalStatus(data: LedgerData, args: any): ToolOutput {
+  const search = typeof args.name === 'string' ? args.name.trim().toLowerCase() : '';
+  const goals = data.goals.filter((goal) => !search || goal.name.toLowerCase().includes(search));
+  const now = new Date();
+
+  return {
+    result: {
+      goals: goals.map((goal) => {
+        const progress = goalProgress(goal, now);
+        return {
+          id: goal.id,
+          name: goal.name,
+          target: goal.targetAmount,
+          saved: goal.currentAmount,
+          progressPercent: round(progress.percent),
+          remaining: progress.remaining,
+          deadline: goal.deadline,
+          monthsLeft: progress.monthsLeft,
+          monthlyNeeded: round(progress.monthlyNeeded),
+          status: goal.status,
+        };
+      }),
+    },
+    citations: goals.map(citeGoal),
+  };
+}
+
+const TOOLS: Record<string, (data: LedgerData, args: any) => ToolOutput> = {
+  sum_transactions: sumTransactions,
+  list_transactions: listTransactions,
+  emi_schedule: emiSchedule,
+  goal_status: goalStatus,
+};
+
+// Run one tool call from the model. `args` is the JSON string the model produced.
+// Problems are reported back to the model as `{ error }` so it can try again.
+export function runLedgerTool(data: LedgerData, name: string, args: string) {
+  const tool = TOOLS[name];
+  if (!tool) {
+    return { content: JSON.stringify({ error: `Unknown tool ${name}` }), citations: [] as ChatCitation[] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = args ? JSON.parse(args) : {};
+  } catch {
+    return { content: JSON.stringify({ error: 'Arguments must be a JSON object' }), citations: [] as ChatCitation[] };
+  }
+
+  const { result, citations } = tool(data, parsed || {});
+  return { content: JSON.stringify(result), citations };
+}
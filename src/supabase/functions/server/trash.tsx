@@ -0,0 +1,50 @@
+// Soft-delete support: deleted records are parked in the trash until restored or purged.
+
+import { recordLabel } from "./audit.tsx";
+import {
+  TRASH_RETENTION_DAYS,
+  type AuditSubject,
+  type FileContents,
+  type TrashItem,
+  type TrashSummary,
+} from "./models.tsx";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createTrashItem(userId: string, subject: AuditSubject, record: any, contents?: FileContents): TrashItem {
+  const deletedAt = new Date();
+  const item: TrashItem = {
+    id: `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    subject,
+    recordId: record.id,
+    label: recordLabel(subject, record),
+    fileId: subject === 'file' ? record.id : record.fileId ?? null,
+    deletedAt: deletedAt.toISOString(),
+    expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+    record,
+  };
+
+  if (contents) item.contents = contents;
+
+  return item;
+}
+
+export function isExpired(item: TrashItem, now = new Date()) {
+  return new Date(item.expiresAt).getTime() <= now.getTime();
+}
+
+// Drop a file's bundled records from list responses, keeping their counts
+export function summarizeTrashItem(item: TrashItem): TrashSummary {
+  const { userId, contents, ...summary } = item;
+  if (!contents) return summary;
+
+  return {
+    ...summary,
+    counts: {
+      transactions: contents.transactions.length,
+      emis: contents.emis.length,
+      savingsGoals: contents.goals.length,
+    },
+  };
+}
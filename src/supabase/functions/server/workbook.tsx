@@ -0,0 +1,97 @@
+// Excel output for GET /export?format=xlsx: one sheet per selected section.
+// Sheet names and column headers match what the upload dialog looks for, so an exported
+// workbook can be uploaded again as is. Income and Expenses are read as transaction
+// sheets; "EMIs" and "Savings Goals" are picked up by name. The Categories and
+// Summary sheets have no Date column, so the upload skips their rows.
+
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+import type { ExportPayload, Transaction, TransactionSummary, WorkbookSection } from "./models.tsx";
+
+const transactionRows = (transactions: Transaction[]) =>
+  transactions
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((t) => ({
+      Date: t.date,
+      Description: t.description,
+      Category: t.category,
+      Amount: t.amount,
+      Type: t.type,
+      Source: t.source ?? '',
+    }));
+
+function appendSheet(workbook: any, name: string, rows: Record<string, unknown>[], header: string[]) {
+  const sheet = XLSX.utils.json_to_sheet(rows, { header });
+  // Wide enough for the header or the longest value in each column. Folded rather than
+  // spread, since a sheet can hold more rows than a call takes arguments.
+  sheet['!cols'] = header.map((column) => ({
+    wch: Math.min(60, rows.reduce((width, row) => Math.max(width, String(row[column] ?? '').length), column.length) + 2),
+  }));
+  XLSX.utils.book_append_sheet(workbook, sheet, name);
+}
+
+export function buildExportWorkbook(data: ExportPayload, summary: TransactionSummary, sections: readonly WorkbookSection[]) {
+  const included = new Set(sections);
+  const workbook = XLSX.utils.book_new();
+  const transactionHeader = ['Date', 'Description', 'Category', 'Amount', 'Type', 'Source'];
+
+  if (included.has('summary')) {
+    const { totals } = summary;
+    appendSheet(workbook, 'Summary', [
+      { Metric: 'Total income', Value: totals.income },
+      { Metric: 'Total expenses', Value: totals.expense },
+      { Metric: 'Net savings', Value: totals.net },
+      { Metric: 'Savings rate (%)', Value: summary.savingsRate },
+      { Metric: 'Income transactions', Value: totals.incomeCount },
+      { Metric: 'Expense transactions', Value: totals.expenseCount },
+      { Metric: 'Largest expense', Value: summary.largestExpense ? `${summary.largestExpense.description} (${summary.largestExpense.amount})` : '' },
+      { Metric: 'Files', Value: data.files.map((file) => file.fileName).join(', ') },
+      { Metric: 'Date range', Value: data.scope.from || data.scope.to ? `${data.scope.from ?? '…'} to ${data.scope.to ?? '…'}` : 'All dates' },
+      { Metric: 'Exported at', Value: data.exportedAt },
+    ], ['Metric', 'Value']);
+  }
+
+  if (included.has('income')) {
+    appendSheet(workbook, 'Income', transactionRows(data.transactions.filter((t) => t.type === 'Income')), transactionHeader);
+  }
+
+  if (included.has('expenses')) {
+    appendSheet(workbook, 'Expenses', transactionRows(data.transactions.filter((t) => t.type === 'Expense')), transactionHeader);
+  }
+
+  if (included.has('categories')) {
+    appendSheet(workbook, 'Categories', summary.byCategory.map((category) => ({
+      Category: category.name,
+      Amount: category.amount,
+      'Share (%)': category.share,
+      Transactions: category.count,
+    })), ['Category', 'Amount', 'Share (%)', 'Transactions']);
+  }
+
+  if (included.has('emis')) {
+    appendSheet(workbook, 'EMIs', data.emis.map((emi) => ({
+      Name: emi.name,
+      Amount: emi.amount,
+      'Due Date': emi.dueDate,
+      'Total Amount': emi.totalAmount,
+      Paid: emi.paid,
+      Status: emi.status,
+    })), ['Name', 'Amount', 'Due Date', 'Total Amount', 'Paid', 'Status']);
+  }
+
+  if (included.has('savings')) {
+    appendSheet(workbook, 'Savings Goals', data.savings.map((goal) => ({
+      Name: goal.name,
+      'Target Amount': goal.targetAmount,
+      'Current Amount': goal.currentAmount,
+      Deadline: goal.deadline,
+      Status: goal.status,
+    })), ['Name', 'Target Amount', 'Current Amount', 'Deadline', 'Status']);
+  }
+
+  return workbook;
+}
+
+export function workbookBytes(workbook: any): Uint8Array {
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true }));
+}
@@ -1,9 +1,86 @@
 import { projectId, publicAnonKey } from './supabase/info';
+import type {
+  Transaction,
+  TransactionType,
+  TransactionInput,
+  TransactionUpdate,
+  Emi,
+  EmiInput,
+  EmiUpdate,
+  SavingsGoal,
+  SavingsGoalInput,
+  SavingsGoalUpdate,
+  FileRecord,
+  ImportPayload,
+  DashboardSummary,
+  FieldError,
+  AuditEntry,
+  AuditSubject,
+  AuditAction,
+  TrashSummary,
+  DeletionReceipt,
+  ExportPayload,
+  ExportFormat,
+  WorkbookSection,
+  RestoreMode,
+  RestoreCounts,
+  ChatRequest,
+  ChatMemory,
+  ChatCitation,
+  ChatStreamEvent,
+  ChatSettings,
+  ChatDeployment,
+  UserSettings,
+  Conversation,
+  ConversationSummary,
+} from '../supabase/functions/server/models';
 
 const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-2ee15a73`;
 
+// Deletes move records to the trash; `trashId` undoes the delete via trashApi.restore
+type TrashedResponse = { message: string; trashId: string; expiresAt: string };
+
+// Error thrown for non-2xx responses. Validation failures (400) carry the server's
+// per-field messages in `fieldErrors`.
+export class ApiError extends Error {
+  status: number;
+  fieldErrors: FieldError[];
+
+  constructor(message: string, status: number, fieldErrors: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Thrown when a conditional write (If-Match) loses to a concurrent change.
+// `current` is the record as it is now stored, so callers can refresh and retry.
+export class ConflictError<T = any> extends ApiError {
+  current: T;
+
+  constructor(message: string, current: T) {
+    super(message, 409);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
+// Header for a conditional write against the record version the caller last read
+function ifMatch(version?: number): Record<string, string> {
+  return version !== undefined ? { 'If-Match': `"${version}"` } : {};
+}
+
+// Readable message for a failed request, listing field errors when there are any
+export function describeApiError(error: any, fallback: string) {
+  if (error instanceof ApiError && error.fieldErrors.length > 0) {
+    return error.fieldErrors.map(({ field, message }) => `${field}: ${message}`).join('; ');
+  }
+  return error?.message || fallback;
+}
+
 // Helper function to make API calls
-async function apiCall(endpoint: string, options: RequestInit = {}) {
+async function apiCall<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
   
   const response = await fetch(url, {
@@ -16,13 +93,73 @@ async function apiCall(endpoint: string, options: RequestInit = {}) {
 
   const data = await response.json();
 
+  if (response.status === 409) {
+    throw new ConflictError(data.error || 'Record was changed by another request', data.current);
+  }
+
   if (!response.ok) {
-    throw new Error(data.error || 'API request failed');
+    throw new ApiError(data.error || 'API request failed', response.status, data.fieldErrors);
   }
 
   return data;
 }
 
+// Like apiCall, for endpoints that return a file instead of JSON
+async function apiDownload(endpoint: string, options: RequestInit = {}): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, options);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Download failed', response.status, data.fieldErrors);
+  }
+
+  return await response.blob();
+}
+
+// Like apiCall, for endpoints that answer with server-sent events. Each event is
+// passed to `onEvent` as its JSON data plus the event name; resolves when the stream ends.
+async function apiStream<E extends { event: string }>(
+  endpoint: string,
+  options: RequestInit,
+  onEvent: (event: E) => void,
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'API request failed', response.status, data.fieldErrors);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    // Events are separated by a blank line; keep a partial one for the next chunk
+    buffer += value;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      let name = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) name = line.slice(6).trim();
+        if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent({ ...JSON.parse(data), event: name });
+    }
+  }
+}
+
 // Auth API
 export const authApi = {
   signup: async (email: string, password: string, name: string) => {
@@ -43,12 +180,41 @@ export const authApi = {
       },
     });
   },
+
+  // Permanently deletes the account and all of its data; the password is checked again
+  deleteAccount: async (accessToken: string, password: string) => {
+    return apiCall<{ message: string; receipt: DeletionReceipt }>('/user', {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ password }),
+    });
+  },
 };
 
+// Query options for listing transactions. `month` is 0-based; `from`/`to` are inclusive YYYY-MM-DD dates.
+// Pass `limit` to page through results with the returned `nextCursor`.
+export interface TransactionFilters {
+  year?: string;
+  month?: string;
+  type?: string;
+  fileId?: string;
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  category?: string[];
+  q?: string;
+  sort?: 'date' | '-date' | 'amount' | '-amount';
+  limit?: number;
+  cursor?: string;
+}
+
 // Transaction API
 export const transactionApi = {
-  add: async (accessToken: string, transaction: any) => {
-    return apiCall('/transactions', {
+  add: async (accessToken: string, transaction: TransactionInput) => {
+    return apiCall<{ message: string; transaction: Transaction }>('/transactions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -57,17 +223,26 @@ export const transactionApi = {
     });
   },
 
-  getAll: async (accessToken: string, filters?: { year?: string; month?: string; type?: string; fileId?: string }) => {
+  getAll: async (accessToken: string, filters?: TransactionFilters) => {
     const params = new URLSearchParams();
     if (filters?.year) params.append('year', filters.year);
     if (filters?.month) params.append('month', filters.month);
     if (filters?.type) params.append('type', filters.type);
     if (filters?.fileId) params.append('fileId', filters.fileId);
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+    if (filters?.minAmount !== undefined) params.append('minAmount', String(filters.minAmount));
+    if (filters?.maxAmount !== undefined) params.append('maxAmount', String(filters.maxAmount));
+    filters?.category?.forEach(category => params.append('category', category));
+    if (filters?.q) params.append('q', filters.q);
+    if (filters?.sort) params.append('sort', filters.sort);
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    if (filters?.cursor) params.append('cursor', filters.cursor);
     
     const queryString = params.toString();
     const endpoint = queryString ? `/transactions?${queryString}` : '/transactions';
     
-    return apiCall(endpoint, {
+    return apiCall<{ transactions: Transaction[]; total: number; nextCursor: string | null }>(endpoint, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -75,9 +250,46 @@ export const transactionApi = {
     });
   },
 
-  delete: async (accessToken: string, transactionId: string) => {
-    return apiCall(`/transactions/${transactionId}`, {
+  // Pass the version last read to fail with a ConflictError instead of overwriting a newer change
+  update: async (accessToken: string, transactionId: string, updates: TransactionUpdate, version?: number) => {
+    return apiCall<{ message: string; transaction: Transaction }>(`/transactions/${transactionId}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
+      },
+      body: JSON.stringify(updates),
+    });
+  },
+
+  delete: async (accessToken: string, transactionId: string, version?: number) => {
+    return apiCall<TrashedResponse>(`/transactions/${transactionId}`, {
       method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
+      },
+    });
+  },
+};
+
+// Summary API
+export const summaryApi = {
+  // Totals, per-month series, category/source breakdowns and savings rate in one response
+  get: async (accessToken: string, filters?: { fileId?: string; type?: TransactionType; year?: string; month?: string; from?: string; to?: string }) => {
+    const params = new URLSearchParams();
+    if (filters?.fileId) params.append('fileId', filters.fileId);
+    if (filters?.type) params.append('type', filters.type);
+    if (filters?.year) params.append('year', filters.year);
+    if (filters?.month) params.append('month', filters.month);
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/summary?${queryString}` : '/summary';
+
+    return apiCall<{ summary: DashboardSummary }>(endpoint, {
+      method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
       },
@@ -87,8 +299,8 @@ export const transactionApi = {
 
 // EMI API
 export const emiApi = {
-  add: async (accessToken: string, emi: any) => {
-    return apiCall('/emis', {
+  add: async (accessToken: string, emi: EmiInput) => {
+    return apiCall<{ message: string; emi: Emi }>('/emis', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -104,7 +316,7 @@ export const emiApi = {
     const queryString = params.toString();
     const endpoint = queryString ? `/emis?${queryString}` : '/emis';
     
-    return apiCall(endpoint, {
+    return apiCall<{ emis: Emi[] }>(endpoint, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -112,21 +324,23 @@ export const emiApi = {
     });
   },
 
-  update: async (accessToken: string, emiId: string, updates: any) => {
-    return apiCall(`/emis/${emiId}`, {
+  update: async (accessToken: string, emiId: string, updates: EmiUpdate, version?: number) => {
+    return apiCall<{ message: string; emi: Emi }>(`/emis/${emiId}`, {
       method: 'PUT',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
       },
       body: JSON.stringify(updates),
     });
   },
 
-  delete: async (accessToken: string, emiId: string) => {
-    return apiCall(`/emis/${emiId}`, {
+  delete: async (accessToken: string, emiId: string, version?: number) => {
+    return apiCall<TrashedResponse>(`/emis/${emiId}`, {
       method: 'DELETE',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
       },
     });
   },
@@ -134,8 +348,8 @@ export const emiApi = {
 
 // Savings API
 export const savingsApi = {
-  add: async (accessToken: string, goal: any) => {
-    return apiCall('/savings', {
+  add: async (accessToken: string, goal: SavingsGoalInput) => {
+    return apiCall<{ message: string; goal: SavingsGoal }>('/savings', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -151,7 +365,7 @@ export const savingsApi = {
     const queryString = params.toString();
     const endpoint = queryString ? `/savings?${queryString}` : '/savings';
     
-    return apiCall(endpoint, {
+    return apiCall<{ savings: SavingsGoal[] }>(endpoint, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -159,42 +373,189 @@ export const savingsApi = {
     });
   },
 
-  update: async (accessToken: string, goalId: string, updates: any) => {
-    return apiCall(`/savings/${goalId}`, {
+  update: async (accessToken: string, goalId: string, updates: SavingsGoalUpdate, version?: number) => {
+    return apiCall<{ message: string; goal: SavingsGoal }>(`/savings/${goalId}`, {
       method: 'PUT',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
       },
       body: JSON.stringify(updates),
     });
   },
 
-  delete: async (accessToken: string, goalId: string) => {
-    return apiCall(`/savings/${goalId}`, {
+  delete: async (accessToken: string, goalId: string, version?: number) => {
+    return apiCall<TrashedResponse>(`/savings/${goalId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
+      },
+    });
+  },
+};
+
+// Import API
+export const importApi = {
+  // Commit a parsed statement in one all-or-nothing request
+  create: async (
+    accessToken: string,
+    payload: ImportPayload,
+  ) => {
+    return apiCall<{ message: string; file: FileRecord; counts: { transactions: number; emis: number; savingsGoals: number } }>('/imports', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+  },
+};
+
+// Audit API
+export const auditApi = {
+  // Newest first; pass `cursor` from the previous page's `nextCursor` to load more
+  getAll: async (
+    accessToken: string,
+    filters?: { subject?: AuditSubject; action?: AuditAction; recordId?: string; fileId?: string; limit?: number; cursor?: string },
+  ) => {
+    const params = new URLSearchParams();
+    if (filters?.subject) params.append('subject', filters.subject);
+    if (filters?.action) params.append('action', filters.action);
+    if (filters?.recordId) params.append('recordId', filters.recordId);
+    if (filters?.fileId) params.append('fileId', filters.fileId);
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    if (filters?.cursor) params.append('cursor', filters.cursor);
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/audit?${queryString}` : '/audit';
+
+    return apiCall<{ entries: AuditEntry[]; total: number; nextCursor: string | null }>(endpoint, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+};
+
+// Trash API
+export const trashApi = {
+  getAll: async (accessToken: string, filters?: { subject?: AuditSubject }) => {
+    const params = new URLSearchParams();
+    if (filters?.subject) params.append('subject', filters.subject);
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/trash?${queryString}` : '/trash';
+
+    return apiCall<{ items: TrashSummary[] }>(endpoint, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  restore: async (accessToken: string, trashId: string) => {
+    return apiCall<{ message: string; restored: TrashSummary }>(`/trash/${trashId}/restore`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // Permanently deletes one item; it can't be restored afterwards
+  delete: async (accessToken: string, trashId: string) => {
+    return apiCall<{ message: string }>(`/trash/${trashId}`, {
       method: 'DELETE',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
       },
     });
   },
+
+  purge: async (accessToken: string) => {
+    return apiCall<{ message: string; purged: number }>('/trash/purge', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
 };
 
 // Export API
+export interface ExportFilters {
+  fileId?: string;     // a file id or 'all'; the server defaults to the active file
+  from?: string;
+  to?: string;
+}
+
+function exportQuery(filters?: ExportFilters, format?: ExportFormat, sections?: WorkbookSection[]) {
+  const params = new URLSearchParams();
+  if (filters?.fileId) params.append('fileId', filters.fileId);
+  if (filters?.from) params.append('from', filters.from);
+  if (filters?.to) params.append('to', filters.to);
+  if (format) params.append('format', format);
+  if (sections) params.append('sections', sections.join(','));
+
+  const queryString = params.toString();
+  return queryString ? `/export?${queryString}` : '/export';
+}
+
 export const exportApi = {
-  getData: async (accessToken: string) => {
-    return apiCall('/export', {
+  getData: async (accessToken: string, filters?: ExportFilters) => {
+    return apiCall<ExportPayload>(exportQuery(filters), {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // Zip with one CSV per entity and a manifest
+  getCsvArchive: async (accessToken: string, filters?: ExportFilters) => {
+    return apiDownload(exportQuery(filters, 'csv'), {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // Excel workbook with the chosen sheets
+  getWorkbook: async (accessToken: string, sections: WorkbookSection[], filters?: ExportFilters) => {
+    return apiDownload(exportQuery(filters, 'xlsx', sections), {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
       },
     });
   },
+
+  // Restore a previous export; `data` is the parsed JSON file as downloaded
+  restore: async (accessToken: string, data: unknown, mode: RestoreMode) => {
+    return apiCall<{
+      message: string;
+      mode: RestoreMode;
+      counts: RestoreCounts;
+      replaced: RestoreCounts;
+      activeFileId: string | null;
+    }>('/restore', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ mode, data }),
+    });
+  },
 };
 
 // File API
 export const fileApi = {
   add: async (accessToken: string, file: { fileName: string; transactionCount: number }) => {
-    return apiCall('/files', {
+    return apiCall<{ message: string; file: FileRecord }>('/files', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -204,7 +565,7 @@ export const fileApi = {
   },
 
   getAll: async (accessToken: string) => {
-    return apiCall('/files', {
+    return apiCall<{ files: FileRecord[]; activeFileId: string | null }>('/files', {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -212,6 +573,26 @@ export const fileApi = {
     });
   },
 
+  get: async (accessToken: string, fileId: string) => {
+    return apiCall<{ file: FileRecord; counts: { transactions: number; emis: number; savingsGoals: number } }>(`/files/${fileId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // Moves the file and every transaction, EMI and savings goal imported with it to the trash
+  delete: async (accessToken: string, fileId: string, version?: number) => {
+    return apiCall<TrashedResponse & { counts: { transactions: number; emis: number; savingsGoals: number }; activeFileId: string | null }>(`/files/${fileId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        ...ifMatch(version),
+      },
+    });
+  },
+
   setActive: async (accessToken: string, fileId: string) => {
     return apiCall('/files/active', {
       method: 'POST',
@@ -222,3 +603,144 @@ export const fileApi = {
     });
   },
 };
+
+// Chat API
+export const chatApi = {
+  // Ask the finance assistant about a file (default: the active file)
+  send: async (accessToken: string, request: ChatRequest) => {
+    return apiCall<{ reply: string; memory: ChatMemory | null; citations: ChatCitation[] }>('/chat', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(request),
+    });
+  },
+
+  // Same as send, with the reply streamed: `onDelta` gets each piece of text as it
+  // arrives, `onMemory` the new summary if earlier turns were folded into it and
+  // `onCitations` the rows the answer is based on. The promise resolves with the
+  // whole reply. Aborting `signal` stops the answer and rejects with an AbortError.
+  stream: async (
+    accessToken: string,
+    request: Omit<ChatRequest, 'stream'>,
+    handlers: {
+      onDelta: (content: string) => void;
+      onMemory?: (memory: ChatMemory) => void;
+      onCitations?: (citations: ChatCitation[]) => void;
+    },
+    signal?: AbortSignal,
+  ) => {
+    let reply = '';
+
+    await apiStream<ChatStreamEvent>('/chat', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ ...request, stream: true }),
+      signal,
+    }, (event) => {
+      if (event.event === 'memory') {
+        handlers.onMemory?.({ summary: event.summary, summarizedTurns: event.summarizedTurns });
+      } else if (event.event === 'delta') {
+        reply += event.content;
+        handlers.onDelta(event.content);
+      } else if (event.event === 'citations') {
+        handlers.onCitations?.(event.citations);
+      } else if (event.event === 'error') {
+        throw new ApiError(event.error, 502);
+      }
+    });
+
+    return reply;
+  },
+};
+
+// Conversation API
+export const conversationApi = {
+  // Saved conversations about a file (default: the active file), most recent first
+  getAll: async (accessToken: string, fileId?: string) => {
+    const query = fileId ? `?fileId=${encodeURIComponent(fileId)}` : '';
+    return apiCall<{ conversations: ConversationSummary[] }>(`/conversations${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  get: async (accessToken: string, id: string) => {
+    return apiCall<{ conversation: Conversation }>(`/conversations/${id}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // Without a title the first question names the conversation
+  create: async (accessToken: string, fileId: string, title?: string) => {
+    return apiCall<{ message: string; conversation: Conversation }>('/conversations', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ fileId, title }),
+    });
+  },
+
+  // An empty title goes back to the first question
+  rename: async (accessToken: string, id: string, title: string | null) => {
+    return apiCall<{ message: string; conversation: ConversationSummary }>(`/conversations/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ title }),
+    });
+  },
+
+  delete: async (accessToken: string, id: string) => {
+    return apiCall<{ message: string }>(`/conversations/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // The conversation as a Markdown file
+  exportMarkdown: async (accessToken: string, id: string) => {
+    return apiDownload(`/conversations/${id}/export`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+};
+
+// Settings API
+export const settingsApi = {
+  // The user's settings and what the server offers for the assistant
+  get: async (accessToken: string) => {
+    return apiCall<{ settings: UserSettings; chat: ChatDeployment }>('/settings', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+  },
+
+  // null resets a field to the server default
+  updateChat: async (accessToken: string, chat: Partial<ChatSettings>) => {
+    return apiCall<{ message: string; settings: UserSettings; chat: ChatDeployment }>('/settings', {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ chat }),
+    });
+  },
+};
@@ -0,0 +1,134 @@
+import type { TransactionSummary } from '../supabase/functions/server/models';
+
+// Rule-based suggestions from a transaction summary. Shared by the Insights tab and
+// the monthly PDF report so both show the same advice.
+
+export type InsightIcon = 'alert' | 'piggy-bank' | 'trending-down' | 'lightbulb';
+export type InsightColor = 'orange' | 'green' | 'red' | 'blue';
+
+export interface Insight {
+  id: number;
+  type: 'warning' | 'opportunity' | 'tip' | 'alert';
+  icon: InsightIcon;
+  title: string;
+  description: string;
+  recommendation: string;
+  savings: number;          // estimated monthly saving, 0 when not applicable
+  color: InsightColor;
+}
+
+export const MAX_INSIGHTS = 4;
+
+export function buildInsights(summary: TransactionSummary): Insight[] {
+  if (summary.totals.incomeCount + summary.totals.expenseCount === 0) {
+    return [];
+  }
+
+  const insights: Insight[] = [];
+  let insightId = 1;
+
+  const totalIncome = summary.totals.income;
+  const totalExpenses = summary.totals.expense;
+  const savings = summary.totals.net;
+  const savingsRate = summary.savingsRate;
+
+  // Categories arrive sorted by spending, highest first
+  const sortedCategories: [string, number][] = summary.byCategory
+    .map((category) => [category.name, category.amount]);
+
+  // High category spending
+  if (sortedCategories.length > 0) {
+    const [topCategory, topAmount] = sortedCategories[0];
+    const categoryPercentage = totalExpenses > 0 ? (topAmount / totalExpenses) * 100 : 0;
+
+    if (categoryPercentage > 25) {
+      insights.push({
+        id: insightId++,
+        type: "warning",
+        icon: "alert",
+        title: `High ${topCategory} Expenses`,
+        description: `Your ${topCategory} expenses are ₹${topAmount.toLocaleString()}, which is ${categoryPercentage.toFixed(0)}% of your total expenses.`,
+        recommendation: `Consider reducing ${topCategory} spending by 15-20% to save approximately ₹${(topAmount * 0.15).toFixed(0).toLocaleString()}/month.`,
+        savings: Math.round(topAmount * 0.15),
+        color: "orange",
+      });
+    }
+  }
+
+  // Savings rate
+  if (savingsRate < 20 && totalIncome > 0) {
+    insights.push({
+      id: insightId++,
+      type: "opportunity",
+      icon: "piggy-bank",
+      title: "Improve Your Savings Rate",
+      description: `You're currently saving ${savingsRate.toFixed(1)}% of your income (₹${savings.toLocaleString()}). Financial experts recommend saving at least 20%.`,
+      recommendation: `Try to increase your savings by ₹${((totalIncome * 0.2) - savings).toFixed(0).toLocaleString()}/month to reach the 20% target.`,
+      savings: 0,
+      color: "green",
+    });
+  } else if (savingsRate >= 20) {
+    insights.push({
+      id: insightId++,
+      type: "tip",
+      icon: "piggy-bank",
+      title: "Excellent Savings!",
+      description: `You're saving ${savingsRate.toFixed(1)}% of your income, which exceeds the recommended 20%. Great job!`,
+      recommendation: `Consider investing your savings in mutual funds, fixed deposits, or other investment options for better returns.`,
+      savings: 0,
+      color: "blue",
+    });
+  }
+
+  // Multiple high spending categories
+  if (sortedCategories.length >= 2) {
+    const [cat1, amt1] = sortedCategories[0];
+    const [cat2, amt2] = sortedCategories[1];
+    const combinedAmount = amt1 + amt2;
+    const combinedPercentage = totalExpenses > 0 ? (combinedAmount / totalExpenses) * 100 : 0;
+
+    if (combinedPercentage > 50) {
+      insights.push({
+        id: insightId++,
+        type: "alert",
+        icon: "trending-down",
+        title: "Top Two Categories Dominate Budget",
+        description: `${cat1} (₹${amt1.toLocaleString()}) and ${cat2} (₹${amt2.toLocaleString()}) account for ${combinedPercentage.toFixed(0)}% of your expenses.`,
+        recommendation: `Focus on reducing spending in these two areas. Even a 10% reduction could save you ₹${(combinedAmount * 0.1).toFixed(0).toLocaleString()}/month.`,
+        savings: Math.round(combinedAmount * 0.1),
+        color: "red",
+      });
+    }
+  }
+
+  // Income vs Expenses ratio
+  if (totalExpenses > totalIncome * 0.9) {
+    insights.push({
+      id: insightId++,
+      type: "alert",
+      icon: "alert",
+      title: "High Expense-to-Income Ratio",
+      description: `Your expenses (₹${totalExpenses.toLocaleString()}) are ${((totalExpenses / totalIncome) * 100).toFixed(0)}% of your income. This leaves little room for savings.`,
+      recommendation: `Review discretionary spending and identify areas where you can cut back by 10-15%.`,
+      savings: Math.round(totalExpenses * 0.1),
+      color: "orange",
+    });
+  }
+
+  // Budget optimization tip
+  if (sortedCategories.length >= 3) {
+    const [cat3, amt3] = sortedCategories[2];
+    insights.push({
+      id: insightId++,
+      type: "tip",
+      icon: "lightbulb",
+      title: `Optimize ${cat3} Spending`,
+      description: `You're spending ₹${amt3.toLocaleString()} on ${cat3}. Look for alternatives or deals.`,
+      recommendation: `Compare prices, use discount codes, or consider switching to more affordable options in this category.`,
+      savings: Math.round(amt3 * 0.15),
+      color: "blue",
+    });
+  }
+
+  return insights.slice(0, MAX_INSIGHTS);
+}
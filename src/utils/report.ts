@@ -0,0 +1,216 @@
+import { jsPDF } from "jspdf@2.5.2";
+import type { Emi, SavingsGoal, TransactionSummary } from '../supabase/functions/server/models';
+import { emiStatus } from '../supabase/functions/server/financial-context';
+import type { Insight } from './insights';
+
+// Printable one-month summary for people who don't use the app: income by source,
+// expenses by category, EMI status, savings goal progress and top suggestions.
+
+export interface MonthlyReportData {
+  month: string;            // YYYY-MM
+  fileName: string;
+  summary: TransactionSummary;
+  emis: Emi[];
+  goals: SavingsGoal[];
+  insights: Insight[];
+}
+
+interface Column {
+  title: string;
+  width: number;            // mm
+  align?: 'left' | 'right';
+}
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 6;
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+
+// The built-in PDF fonts have no rupee glyph
+const inr = (amount: number) => `Rs. ${Math.round(amount).toLocaleString('en-IN')}`;
+const pdfText = (text: string) => text.replace(/₹/g, 'Rs. ');
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export function monthLabel(month: string) {
+  const [year, monthIndex] = month.split('-').map((part) => parseInt(part));
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+}
+
+export function buildMonthlyReport(data: MonthlyReportData) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(text, PAGE_MARGIN, y);
+    y += 2;
+    doc.setDrawColor(...BRAND_COLOR);
+    doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+    y += LINE_HEIGHT;
+    doc.setTextColor(33, 33, 33);
+  };
+
+  const note = (text: string) => {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(10);
+    doc.setTextColor(110, 110, 110);
+    doc.text(text, PAGE_MARGIN, y);
+    doc.setTextColor(33, 33, 33);
+    y += LINE_HEIGHT;
+  };
+
+  const table = (columns: Column[], rows: string[][]) => {
+    const drawRow = (cells: string[], bold: boolean) => {
+      ensureSpace(LINE_HEIGHT);
+      doc.setFont('helvetica', bold ? 'bold' : 'normal');
+      doc.setFontSize(10);
+      let x = PAGE_MARGIN;
+      columns.forEach((column, index) => {
+        const text = doc.splitTextToSize(cells[index] ?? '', column.width - 2)[0] ?? '';
+        if (column.align === 'right') {
+          doc.text(text, x + column.width - 1, y, { align: 'right' });
+        } else {
+          doc.text(text, x + 1, y);
+        }
+        x += column.width;
+      });
+      y += LINE_HEIGHT;
+    };
+
+    drawRow(columns.map((column) => column.title), true);
+    rows.forEach((row) => drawRow(row, false));
+    y += 2;
+  };
+
+  // Title block
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text('WealthGenie Monthly Report', PAGE_MARGIN, y + 4);
+  y += 12;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(33, 33, 33);
+  doc.text(`${monthLabel(data.month)}  ·  ${data.fileName}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.setFontSize(9);
+  doc.setTextColor(110, 110, 110);
+  doc.text(`Generated ${new Date().toLocaleString('en-IN')}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+
+  // Overview
+  const { totals } = data.summary;
+  heading('Overview');
+  table(
+    [{ title: 'Income', width: 45, align: 'right' }, { title: 'Expenses', width: 45, align: 'right' }, { title: 'Net', width: 45, align: 'right' }, { title: 'Savings rate', width: 45, align: 'right' }],
+    [[inr(totals.income), inr(totals.expense), inr(totals.net), `${data.summary.savingsRate.toFixed(1)}%`]],
+  );
+
+  // Income by source, as on the Income tab
+  heading('Income by source');
+  if (data.summary.bySource.length === 0) {
+    note('No income recorded this month');
+  } else {
+    table(
+      [{ title: 'Source', width: 100 }, { title: 'Amount', width: 45, align: 'right' }, { title: 'Share', width: 35, align: 'right' }],
+      data.summary.bySource.map((source) => [source.name, inr(source.amount), `${Math.round(source.share)}%`]),
+    );
+  }
+
+  // Expenses by category, as on the Categories tab
+  heading('Expenses by category');
+  if (data.summary.byCategory.length === 0) {
+    note('No expenses recorded this month');
+  } else {
+    table(
+      [{ title: 'Category', width: 80 }, { title: 'Amount', width: 45, align: 'right' }, { title: 'Share', width: 25, align: 'right' }, { title: 'Count', width: 30, align: 'right' }],
+      data.summary.byCategory.map((category) => [category.name, inr(category.amount), `${Math.round(category.share)}%`, String(category.count)]),
+    );
+  }
+
+  // EMI status, with overdue worked out from the due date as the EMI tab does
+  heading('EMIs');
+  if (data.emis.length === 0) {
+    note('No EMIs tracked');
+  } else {
+    table(
+      [{ title: 'Loan', width: 60 }, { title: 'Monthly', width: 30, align: 'right' }, { title: 'Due', width: 30 }, { title: 'Paid / Total', width: 40, align: 'right' }, { title: 'Status', width: 20 }],
+      data.emis.map((emi) => [
+        emi.name,
+        inr(emi.amount),
+        formatDate(emi.dueDate),
+        emi.totalAmount > 0 ? `${inr(emi.paid)} / ${inr(emi.totalAmount)}` : inr(emi.paid),
+        emiStatus(emi),
+      ]),
+    );
+  }
+
+  // Savings goal progress
+  heading('Savings goals');
+  if (data.goals.length === 0) {
+    note('No savings goals set');
+  } else {
+    table(
+      [{ title: 'Goal', width: 60 }, { title: 'Saved', width: 35, align: 'right' }, { title: 'Target', width: 35, align: 'right' }, { title: 'Progress', width: 20, align: 'right' }, { title: 'Deadline', width: 30 }],
+      data.goals.map((goal) => {
+        const progress = goal.targetAmount > 0 ? (goal.currentAmount / goal.targetAmount) * 100 : 0;
+        return [goal.name, inr(goal.currentAmount), inr(goal.targetAmount), `${progress.toFixed(0)}%`, formatDate(goal.deadline)];
+      }),
+    );
+  }
+
+  // Top suggestions, as on the Insights tab
+  heading('Suggestions');
+  if (data.insights.length === 0) {
+    note('Not enough transaction data for suggestions');
+  } else {
+    data.insights.forEach((insight) => {
+      const description = doc.splitTextToSize(pdfText(insight.description), contentWidth);
+      const recommendation = doc.splitTextToSize(`> ${pdfText(insight.recommendation)}`, contentWidth - 4);
+      ensureSpace(LINE_HEIGHT * (1 + description.length + recommendation.length));
+
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.text(pdfText(insight.title), PAGE_MARGIN, y);
+      y += LINE_HEIGHT;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.text(description, PAGE_MARGIN, y);
+      y += LINE_HEIGHT * description.length;
+      doc.text(recommendation, PAGE_MARGIN + 4, y);
+      y += LINE_HEIGHT * recommendation.length + 2;
+    });
+  }
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: 'right' });
+  }
+
+  return doc;
+}
@@ -0,0 +1,20 @@
+import { MAX_BULK_ITEMS, type TransactionType } from '../supabase/functions/server/models';
+
+// Type of an uploaded transaction row. The Type cell may say "Income"/"Expense" in any
+// case, or bank-style "Credit"/"Debit"; without one, a negative amount is an expense.
+export function transactionTypeFrom(typeCell: unknown, amount: number): TransactionType {
+  if (typeCell) {
+    const typeValue = String(typeCell).toLowerCase();
+    return typeValue.includes('income') || typeValue.includes('credit') ? 'Income' : 'Expense';
+  }
+  return amount < 0 ? 'Expense' : 'Income';
+}
+
+// One upload imports at most MAX_BULK_ITEMS rows of each kind and the server rejects
+// the whole file beyond that, so say so before sending it
+export function importSizeError(sections: Record<string, unknown[]>): string | null {
+  const tooLarge = Object.entries(sections).find(([, rows]) => rows.length > MAX_BULK_ITEMS);
+  if (!tooLarge) return null;
+  const [name, rows] = tooLarge;
+  return `This file has ${rows.length.toLocaleString()} ${name}, but one upload can import at most ${MAX_BULK_ITEMS.toLocaleString()}. Split it into smaller files and upload each one.`;
+}